@@ -0,0 +1,40 @@
+import { performance } from "node:perf_hooks";
+import { types, get, set, compile, defineArray, defineStruct } from "../dist/index.esm.js";
+
+const Record = defineStruct()
+    .addProperty("foo", types.UINT_8)
+    .addProperty("bar", types.FLOAT_32)
+    .addProperty("position", defineArray(types.INT_16, 3).freeze())
+    .freeze();
+
+const Records = defineArray(Record, 10000).freeze();
+const CompiledRecords = compile(Records);
+
+const view = new DataView(new ArrayBuffer(Records.size));
+const value = get(view, Records, 0, true);
+
+/**
+ * Measures average time per call
+ * @param {string} name
+ * @param {() => void} callback
+ */
+function bench(name, callback) {
+    for (let i = 0; i < 20; i++) {
+        callback();
+    }
+    const rounds = 100;
+    const start = performance.now();
+    for (let i = 0; i < rounds; i++) {
+        callback();
+    }
+    const time = (performance.now() - start) / rounds;
+    console.log(`${name.padEnd(24)} ${time.toFixed(3)} ms`);
+    return time;
+}
+
+const interpretedGet = bench("get (interpreted)", () => get(view, Records, 0, true));
+const compiledGet = bench("get (compiled)", () => get(view, CompiledRecords, 0, true));
+const interpretedSet = bench("set (interpreted)", () => set(view, Records, 0, value, true));
+const compiledSet = bench("set (compiled)", () => set(view, CompiledRecords, 0, value, true));
+console.log(`get speedup: ${(interpretedGet / compiledGet).toFixed(1)}x`);
+console.log(`set speedup: ${(interpretedSet / compiledSet).toFixed(1)}x`);
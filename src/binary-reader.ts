@@ -0,0 +1,108 @@
+import { get, measure } from "./core";
+import { getArray } from "./define-array";
+import type { TypeDefinition } from "./core";
+
+/**
+ * Sequential reader over a DataView
+ * @remarks
+ * - Keeps a cursor, every read advances it by `type.size` (the measured size for dynamic types)
+ * - Reuses the getter of any type definition
+ * @example
+ * const reader = new BinaryReader(view, 0, true);
+ * const dosHeader = reader.read(IMAGE_DOS_HEADER);
+ * const ntHeader = reader.seek(dosHeader.e_lfanew).read(IMAGE_NT_HEADERS);
+ * const sections = reader.readArray(IMAGE_SECTION_HEADER, ntHeader.FileHeader.NumberOfSections);
+ */
+export class BinaryReader {
+    /** Source DataView */
+    public readonly view: DataView;
+    /** Current cursor position in bytes */
+    public position: number;
+    /** Default byte order of read operations */
+    public littleEndian: boolean | undefined;
+    /**
+     * Creates a reader
+     * @param view - Source DataView
+     * @param position - Initial cursor position (default: 0)
+     * @param littleEndian - Default byte order (default: big-endian)
+     */
+    public constructor(view: DataView, position?: number, littleEndian?: boolean) {
+        this.view = view;
+        this.position = position ?? 0;
+        this.littleEndian = littleEndian;
+    }
+    /** Number of bytes between cursor and end of the view */
+    public get remaining(): number {
+        return Math.max(this.view.byteLength - this.position, 0);
+    }
+    /**
+     * Reads typed data at the cursor and advances it
+     * @param type - Type definition
+     * @param littleEndian - Byte order override
+     * @returns Decoded value
+     */
+    public read<T>(type: TypeDefinition<T>, littleEndian?: boolean): T {
+        const value = this.peek(type, littleEndian);
+        this.position += measure(this.view, type, this.position, littleEndian ?? this.littleEndian);
+        return value;
+    }
+    /**
+     * Reads an array of typed data at the cursor and advances it
+     * @param type - Element type definition
+     * @param length - Number of elements
+     * @param littleEndian - Byte order override
+     * @returns Array of decoded values
+     */
+    public readArray<T>(type: TypeDefinition<T>, length: number, littleEndian?: boolean): Array<T> {
+        if (type.dynamic) {
+            return Array.from({ length }, () => this.read(type, littleEndian));
+        }
+        const array = getArray(this.view, type, this.position, length, littleEndian ?? this.littleEndian);
+        this.position += type.size * length;
+        return array;
+    }
+    /**
+     * Reads typed data at the cursor without advancing it
+     * @param type - Type definition
+     * @param littleEndian - Byte order override
+     * @returns Decoded value
+     */
+    public peek<T>(type: TypeDefinition<T>, littleEndian?: boolean): T {
+        return get(this.view, type, this.position, littleEndian ?? this.littleEndian);
+    }
+    /**
+     * Moves the cursor forward
+     * @param size - Number of bytes to skip (negative moves backward)
+     * @returns Current instance for chaining
+     */
+    public skip(size: number): this {
+        this.position += size;
+        return this;
+    }
+    /**
+     * Moves the cursor to an absolute position
+     * @param position - New cursor position
+     * @returns Current instance for chaining
+     */
+    public seek(position: number): this {
+        this.position = position;
+        return this;
+    }
+    /**
+     * Moves the cursor forward to the next multiple of `align`
+     * @param align - Alignment in bytes
+     * @returns Current instance for chaining
+     */
+    public align(align: number): this {
+        align = Math.max(align, 1);
+        this.position += (align - (this.position % align)) % align;
+        return this;
+    }
+    /**
+     * Creates an independent reader at the current cursor
+     * @returns New reader sharing the same view and byte order
+     */
+    public fork(): BinaryReader {
+        return new BinaryReader(this.view, this.position, this.littleEndian);
+    }
+}
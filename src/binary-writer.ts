@@ -0,0 +1,179 @@
+import { set, instanceSize } from "./core";
+import { setArray } from "./define-array";
+import type { TypeDefinition, WriteValue } from "./core";
+
+/**
+ * Handle of a reserved region, used to back-patch values (e.g. lengths or offsets)
+ * @template T - JavaScript type of the reserved field
+ */
+export interface ReservedField<T> {
+    /** Byte offset of the reserved region */
+    readonly offset: number;
+    /** Byte size of the reserved region */
+    readonly size: number;
+    /** Type definition of the reserved region */
+    readonly type: TypeDefinition<T>;
+    /**
+     * Writes the value into the reserved region
+     * @param value - Value to encode
+     * @param littleEndian - Byte order override
+     * @throws {RangeError} If the encoded value does not fit into the reserved region
+     */
+    set(value: WriteValue<T>, littleEndian?: boolean): void;
+}
+
+/**
+ * Sequential writer serialising type definitions into an auto-growing buffer
+ * @remarks
+ * - Keeps a cursor, every write advances it by `type.size` (the encoded size for dynamic types)
+ * - Reuses the setter of any type definition
+ * @example
+ * const writer = new BinaryWriter(64, true);
+ * const count = writer.reserve(types.UINT_16);
+ * writer.writeArray(Point, points);
+ * count.set(points.length);
+ * const bytes = writer.finish();
+ */
+export class BinaryWriter {
+    /** Current cursor position in bytes */
+    public position: number = 0;
+    /** Default byte order of write operations */
+    public littleEndian: boolean | undefined;
+    /** Number of bytes written (highest written position) */
+    private _length: number = 0;
+    private _bytes: Uint8Array;
+    private _view: DataView;
+    /**
+     * Creates a writer
+     * @param capacity - Initial buffer capacity in bytes (default: 256)
+     * @param littleEndian - Default byte order (default: big-endian)
+     */
+    public constructor(capacity?: number, littleEndian?: boolean) {
+        this._bytes = new Uint8Array(Math.max(capacity ?? 256, 1));
+        this._view = new DataView(this._bytes.buffer);
+        this.littleEndian = littleEndian;
+    }
+    /** Number of bytes written */
+    public get length(): number {
+        return this._length;
+    }
+    /**
+     * DataView over the current internal buffer
+     * @remarks Replaced when the buffer grows
+     */
+    public get view(): DataView {
+        return this._view;
+    }
+    /**
+     * Makes sure the region `[offset, offset + size)` is writable
+     * @param offset - Start of region
+     * @param size - Size of region
+     */
+    private ensure(offset: number, size: number): void {
+        const end = offset + size;
+        if (end > this._bytes.byteLength) {
+            const bytes = new Uint8Array(Math.max(end, this._bytes.byteLength * 2));
+            bytes.set(this._bytes.subarray(0, this._length));
+            this._bytes = bytes;
+            this._view = new DataView(bytes.buffer);
+        }
+        this._length = Math.max(this._length, end);
+    }
+    /**
+     * Writes typed data at the cursor and advances it
+     * @param type - Type definition
+     * @param value - Value to encode
+     * @param littleEndian - Byte order override
+     * @returns Current instance for chaining
+     */
+    public write<T>(type: TypeDefinition<T>, value: WriteValue<T>, littleEndian?: boolean): this {
+        littleEndian ??= this.littleEndian;
+        const size = instanceSize(type, { view: this._view, offset: this.position, littleEndian }, value as T);
+        this.ensure(this.position, size);
+        set(this._view, type, this.position, value, littleEndian);
+        this.position += size;
+        return this;
+    }
+    /**
+     * Writes an array of typed data at the cursor and advances it
+     * @param type - Element type definition
+     * @param array - Values to encode
+     * @param littleEndian - Byte order override
+     * @returns Current instance for chaining
+     */
+    public writeArray<T>(type: TypeDefinition<T>, array: ArrayLike<WriteValue<T>>, littleEndian?: boolean): this {
+        if (type.dynamic) {
+            for (let index = 0; index < array.length; index++) {
+                this.write(type, array[index], littleEndian);
+            }
+            return this;
+        }
+        const size = type.size * array.length;
+        this.ensure(this.position, size);
+        setArray(this._view, type, this.position, array, littleEndian ?? this.littleEndian);
+        this.position += size;
+        return this;
+    }
+    /**
+     * Writes filler bytes at the cursor and advances it
+     * @param size - Number of bytes
+     * @param filler - Byte value (default: 0)
+     * @returns Current instance for chaining
+     */
+    public pad(size: number, filler?: number): this {
+        this.ensure(this.position, size);
+        this._bytes.fill(filler ?? 0, this.position, this.position + size);
+        this.position += size;
+        return this;
+    }
+    /**
+     * Pads up to the next multiple of `align`
+     * @param align - Alignment in bytes
+     * @param filler - Byte value (default: 0)
+     * @returns Current instance for chaining
+     */
+    public align(align: number, filler?: number): this {
+        align = Math.max(align, 1);
+        return this.pad((align - (this.position % align)) % align, filler);
+    }
+    /**
+     * Reserves a zero-filled region for a value written later
+     * @param type - Type definition of the reserved field
+     * @param size - Byte size of the region (default: `type.size`), required for dynamic types
+     * @returns Handle to back-patch the field
+     * @throws {Error} If a dynamic type is reserved without a size
+     * @remarks Shorter encodings of dynamic types leave the rest of the region zero-filled
+     * @example
+     * const size = writer.reserve(types.UINT_32);
+     * writer.write(Payload, payload);
+     * size.set(writer.position - size.offset);
+     */
+    public reserve<T>(type: TypeDefinition<T>, size?: number): ReservedField<T> {
+        if (size === void 0 && type.dynamic) {
+            throw new Error(`[${type.name}] Reserving a dynamic type requires a byte size.`);
+        }
+        const offset = this.position;
+        const reserved = size ?? type.size;
+        this.pad(reserved);
+        return {
+            offset,
+            size: reserved,
+            type,
+            set: (value, littleEndian) => {
+                littleEndian ??= this.littleEndian;
+                const encoded = instanceSize(type, { view: this._view, offset, littleEndian }, value as T);
+                if (encoded > reserved) {
+                    throw new RangeError(`[${type.name}] Encoded size ${encoded} exceeds the ${reserved} reserved bytes at offset ${offset}.`);
+                }
+                set(this._view, type, offset, value, littleEndian);
+            }
+        };
+    }
+    /**
+     * Finishes writing
+     * @returns Copy of the written bytes trimmed to {@link BinaryWriter.length}
+     */
+    public finish(): Uint8Array {
+        return this._bytes.slice(0, this._length);
+    }
+}
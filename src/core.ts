@@ -1,3 +1,7 @@
+import { writeTracked } from "./watch";
+import { toViewGetter } from "./memory";
+import type { ViewSource } from "./memory";
+
 
 /**
  * Context object received during generic type operations (read/write)
@@ -9,16 +13,45 @@ export interface OperationContext {
     offset: number;
     /** Whether to use little-endian byte order */
     littleEndian?: boolean;
+    /** Whether bounds checking is enabled (see {@link setSafeMode}) */
+    safe?: boolean;
+    /**
+     * Field path of current operation
+     * @remarks Only maintained in safe mode or with the `throw` validation policy, e.g. `Header.DataDirectory[3].Size`
+     */
+    path?: string;
+    /**
+     * Value of the enclosing struct
+     * @remarks Decoded siblings when reading, the written object when writing, used to resolve sibling references
+     */
+    parent?: any;
+    /**
+     * Writes a sibling property of the enclosing struct
+     * @remarks Only provided by struct write operations, used to keep tag fields in sync
+     */
+    setSibling?: (key: string | symbol, value: any) => void;
 }
 
 /**
  * Context object for reactive conversion operations
  */
 export interface OperationContextDynamic {
-    /** DataView instance for current operation */
-    view: DataView;
+    /**
+     * DataView getter for current operation
+     * @remarks Resolve on every access, the DataView may be replaced (e.g. WASM memory growth)
+     */
+    view: () => DataView;
     /** Whether to use little-endian byte order */
     littleEndian?: boolean;
+    /** Whether bounds checking is enabled (see {@link setSafeMode}) */
+    safe?: boolean;
+    /** Field path of current operation, e.g. `Header.DataDirectory[3].Size` */
+    path?: string;
+    /**
+     * Reactive proxy of the enclosing struct
+     * @remarks Used to resolve sibling references
+     */
+    parent?: any;
     /** Offset relative to operation start position */
     localOffset: number;
     /**
@@ -42,6 +75,14 @@ export type OperationSetter<T> = (this: TypeDefinition<T>, context: OperationCon
 /** Function signature for reactive object conversion */
 export type OperationReactive<T> = (this: TypeDefinition<T>, context: OperationContextDynamic) => T;
 
+/**
+ * Function signature for measuring dynamic-size instances
+ * @remarks
+ * - Without `value`, measures the instance stored at the context location
+ * - With `value`, returns the size needed to encode it
+ */
+export type OperationMeasure<T> = (this: TypeDefinition<T>, context: OperationContext, value?: T) => number;
+
 /** Unique symbol identifying type definition objects */
 export const TypeDefinitionSymbol = Symbol("TYPE_DEFINITION");
 
@@ -54,18 +95,62 @@ export interface TypeDefinition<T> {
     isTypeDefinition: typeof TypeDefinitionSymbol;
     /** Type name for debugging purposes */
     name: string;
-    /** Type size in bytes */
+    /** Type size in bytes (minimum size for dynamic types) */
     size: number;
     /** Alignment requirement for memory layout calculations */
     align: number;
+    /**
+     * Whether the byte size depends on the instance data
+     * @remarks Dynamic types must implement `measure`, static types keep using `size`
+     */
+    dynamic?: boolean;
     /** Read operation implementation */
     getter: OperationGetter<T>;
     /** Write operation implementation */
     setter: OperationSetter<T>;
     /** Reactive conversion implementation */
     reactive: OperationReactive<T>;
+    /** Instance size implementation (dynamic types only) */
+    measure?: OperationMeasure<T>;
 }
 
+/** Brand of constant values (type only) */
+declare const ConstantBrand: unique symbol;
+
+/**
+ * Value of a constant field
+ * @template V - Constant value
+ * @remarks Read as `V`, omitted from write inputs (see {@link WriteValue})
+ */
+export type Constant<V> = V & { readonly [ConstantBrand]: V };
+
+/** Brand of values accepting additional write inputs (type only) */
+declare const WritableBrand: unique symbol;
+
+/**
+ * Value accepting additional inputs in write operations
+ * @template T - Read value
+ * @template W - Additional write inputs, e.g. plain addresses of pointers
+ * @remarks
+ * - Read as `T`, write operations accept `T | W` (see {@link WriteValue})
+ * - The brand is optional, plain `T` values remain assignable
+ */
+export type Writable<T, W> = T & { readonly [WritableBrand]?: [T, W] };
+
+/**
+ * Value type accepted by write operations
+ * @template T - Value type of the type definition
+ * @remarks
+ * - Constant properties are omitted, their type definitions write them automatically
+ * - {@link Writable} values accept their additional inputs
+ */
+export type WriteValue<T> = T extends { readonly [ConstantBrand]: infer V } ? V
+    : typeof WritableBrand extends keyof T ? (NonNullable<T[typeof WritableBrand & keyof T]> extends [infer R, infer W] ? WriteValue<R> | W : never)
+    : T extends (...args: Array<any>) => any ? T
+    : T extends ReadonlyArray<any> ? { [K in keyof T]: WriteValue<T[K]> }
+    : T extends object ? { [K in keyof T as T[K] extends { readonly [ConstantBrand]: any } ? never : K]: WriteValue<T[K]> }
+    : T;
+
 /**
  * Type guard for TypeDefinition objects
  * @param test - Value to check
@@ -81,6 +166,323 @@ export function isTypeDefinition(test: any): test is TypeDefinition<any> {
     return false;
 }
 
+/**
+ * Resolves the byte size of an instance
+ * @param type - Type definition
+ * @param context - Location of the instance
+ * @param value - Value about to be written, measured instead of the stored data when given
+ * @returns `type.size` for static types, measured size for dynamic types
+ */
+export function instanceSize<T>(type: TypeDefinition<T>, context: OperationContext, value?: T): number {
+    if (type.dynamic && type.measure) {
+        return type.measure(context, value);
+    }
+    return type.size;
+}
+
+/** Global safe mode switch */
+let safeMode: boolean = false;
+
+/**
+ * Enables or disables safe mode
+ * @param enabled - Whether to check bounds before every operation
+ * @remarks 
+ * - In safe mode every read/write checks `offset + type.size` against `view.byteLength`
+ * - Out of range access throws {@link BoundsError} with the field path
+ * - Applies to operations started after the switch (reactive proxies capture it on creation)
+ * @example 
+ * setSafeMode(true);
+ * get(view, IMAGE_NT_HEADERS, 0x80, true); // BoundsError: [IMAGE_NT_HEADERS.OptionalHeader.Magic] ...
+ */
+export function setSafeMode(enabled: boolean): void {
+    safeMode = enabled;
+}
+
+/**
+ * Checks whether safe mode is enabled
+ * @returns Current safe mode state
+ */
+export function isSafeMode(): boolean {
+    return safeMode;
+}
+
+/**
+ * Error thrown by safe mode when an operation exceeds the DataView bounds
+ */
+export class BoundsError extends RangeError {
+    /** Name of the type being accessed */
+    public readonly typeName: string;
+    /** Field path of the access, e.g. `Header.DataDirectory[3].Size` */
+    public readonly path: string;
+    /** Absolute byte offset of the access */
+    public readonly offset: number;
+    /** Byte size of the accessed type */
+    public readonly size: number;
+    /** Byte length of the DataView */
+    public readonly byteLength: number;
+    public constructor(typeName: string, path: string, offset: number, size: number, byteLength: number) {
+        super(`[${path}] Type '${typeName}' at offset ${offset} (size ${size}) is outside the bounds of the DataView (byteLength ${byteLength}).`);
+        this.name = "BoundsError";
+        this.typeName = typeName;
+        this.path = path;
+        this.offset = offset;
+        this.size = size;
+        this.byteLength = byteLength;
+    }
+}
+
+/**
+ * Checks that a type fits into the DataView at given offset
+ * @param type - Type definition to check
+ * @param view - Target DataView
+ * @param offset - Absolute byte offset
+ * @param path - Field path for error reporting (default: type name)
+ * @throws {BoundsError} If `offset + type.size` exceeds `view.byteLength`
+ */
+export function checkBounds(type: TypeDefinition<any>, view: DataView, offset: number, path?: string): void {
+    const size = type.size;
+    if (offset >= 0 && offset + size <= view.byteLength) {
+        return;
+    }
+    throw new BoundsError(type.name, path ?? type.name, offset, size, view.byteLength);
+}
+
+/**
+ * Handling of values the written type cannot represent
+ * @remarks
+ * - `wrap`: write as DataView does, integers wrap around, strings and arrays are truncated (default)
+ * - `clamp`: saturate integers and infinite floats to the type range, NaN is written as 0, strings and arrays are truncated
+ * - `throw`: throw {@link ValidationError}
+ */
+export type ValidationPolicy = "wrap" | "clamp" | "throw";
+
+/** Global validation policy */
+let validationPolicy: ValidationPolicy = "wrap";
+
+/**
+ * Sets the global validation policy of write operations
+ * @param policy - Validation policy
+ * @remarks
+ * - Field paths are maintained while the policy is `throw`
+ * - Compiled types fall back to their interpreted setters unless the policy is `wrap`
+ * @example
+ * setValidationPolicy("throw");
+ * set(view, types.INT_8, 0, 300); // ValidationError: [INT_8] Value 300 is out of range -128..127.
+ */
+export function setValidationPolicy(policy: ValidationPolicy): void {
+    validationPolicy = policy;
+}
+
+/**
+ * Gets the global validation policy
+ * @returns Current validation policy
+ */
+export function getValidationPolicy(): ValidationPolicy {
+    return validationPolicy;
+}
+
+/**
+ * Checks whether operations should maintain field paths
+ * @param safe - Safe mode state of the operation
+ * @returns Whether safe mode is enabled or the validation policy is `throw`
+ */
+export function isPathTracked(safe?: boolean): boolean {
+    return safe === true || validationPolicy === "throw";
+}
+
+/**
+ * Error thrown by write operations when the validation policy is `throw`
+ */
+export class ValidationError extends RangeError {
+    /** Name of the type being written */
+    public readonly typeName: string;
+    /** Field path of the write, e.g. `Header.DataDirectory[3].Size` */
+    public readonly path: string;
+    /** Rejected value */
+    public readonly value: unknown;
+    public constructor(typeName: string, path: string, value: unknown, reason: string) {
+        super(`[${path}] Value ${formatValue(value)} ${reason}.`);
+        this.name = "ValidationError";
+        this.typeName = typeName;
+        this.path = path;
+        this.value = value;
+    }
+}
+
+/** Formats a rejected value for error messages */
+function formatValue(value: unknown): string {
+    switch (typeof value) {
+        case "bigint":
+            return `${value}n`;
+        case "string":
+            return JSON.stringify(value.length > 32 ? `${value.slice(0, 32)}...` : value);
+        case "object":
+            return Array.isArray(value) ? `Array(${value.length})` : String(value);
+        default:
+            return String(value);
+    }
+}
+
+/**
+ * Applies the validation policy to an integer
+ * @param type - Written type definition
+ * @param path - Field path for error reporting (default: type name)
+ * @param value - Value to write
+ * @param min - Smallest representable value
+ * @param max - Largest representable value
+ * @returns Value to write
+ * @throws {ValidationError} If the value is out of range or not an integer and the policy is `throw`
+ */
+export function validateInteger<V extends number | bigint>(type: TypeDefinition<any>, path: string | undefined, value: V, min: V, max: V): V {
+    if (validationPolicy === "wrap") {
+        return value;
+    }
+    if (typeof value === "number" && !Number.isInteger(value)) {
+        if (validationPolicy === "throw") {
+            throw new ValidationError(type.name, path ?? type.name, value, "is not an integer");
+        }
+        value = (Number.isNaN(value) ? 0 : Math.trunc(value)) as V;
+    }
+    if (value >= min && value <= max) {
+        return value;
+    }
+    if (validationPolicy === "throw") {
+        throw new ValidationError(type.name, path ?? type.name, value, `is out of range ${min}..${max}`);
+    }
+    return value < min ? min : max;
+}
+
+/**
+ * Applies the validation policy to a floating-point number
+ * @param type - Written type definition
+ * @param path - Field path for error reporting (default: type name)
+ * @param value - Value to write
+ * @param max - Largest finite value of the type
+ * @returns Value to write
+ * @throws {ValidationError} If the value is NaN, infinite or exceeds the type range and the policy is `throw`
+ */
+export function validateFloat(type: TypeDefinition<any>, path: string | undefined, value: number, max: number): number {
+    if (validationPolicy === "wrap" || Math.abs(value) <= max) {
+        return value;
+    }
+    if (validationPolicy === "throw") {
+        throw new ValidationError(type.name, path ?? type.name, value, Number.isNaN(value) ? "is not a number" : `is out of range -${max}..${max}`);
+    }
+    return Number.isNaN(value) ? 0 : Math.sign(value) * max;
+}
+
+/**
+ * Applies the validation policy to the length of a string or array
+ * @param type - Written type definition
+ * @param path - Field path for error reporting (default: type name)
+ * @param value - Value to write (reported on error)
+ * @param length - Length of the value (e.g. encoded bytes or elements)
+ * @param max - Largest length the type can hold
+ * @throws {ValidationError} If `length` exceeds `max` and the policy is `throw`
+ * @remarks Other policies leave truncation to the type
+ */
+export function validateLength(type: TypeDefinition<any>, path: string | undefined, value: unknown, length: number, max: number): void {
+    if (validationPolicy === "throw" && length > max) {
+        throw new ValidationError(type.name, path ?? type.name, value, `exceeds the maximum length ${max} (length ${length})`);
+    }
+}
+
+/**
+ * Appends a struct key or array index to a field path
+ * @param path - Parent field path
+ * @param key - Struct key or array index
+ * @returns Child field path
+ * @example 
+ * joinPath("Header", "DataDirectory"); // "Header.DataDirectory"
+ * joinPath("Header.DataDirectory", 3); // "Header.DataDirectory[3]"
+ */
+export function joinPath(path: string | undefined, key: string | symbol | number): string {
+    if (typeof key === "number") {
+        return `${path ?? ""}[${key}]`;
+    }
+    if (typeof key === "symbol") {
+        return `${path ?? ""}[Symbol(${key.description || ""})]`;
+    }
+    return path ? `${path}.${key}` : key;
+}
+
+/** Field path given as segments, e.g. `["OptionalHeader", "DataDirectory", 1, "Size"]` */
+export type FieldPathSegments = ReadonlyArray<string | symbol | number>;
+
+/**
+ * Splits a field path into keys and indices
+ * @param path - Field path, e.g. `OptionalHeader.DataDirectory[1].Size`, a single key or index, or segments
+ * @returns Path segments, e.g. `["OptionalHeader", "DataDirectory", 1, "Size"]`
+ */
+export function parsePath(path: string | symbol | number | FieldPathSegments): Array<string | symbol | number> {
+    if (typeof path !== "string") {
+        return typeof path === "object" ? [...path] : [path];
+    }
+    const segments = new Array<string | number>();
+    const matcher = /([^.[\]]+)|\[(\d+)\]/g;
+    let match: RegExpExecArray | null;
+    while ((match = matcher.exec(path)) !== null) {
+        segments.push(match[2] !== void 0 ? Number(match[2]) : match[1]);
+    }
+    return segments;
+}
+
+/** Depth counter of path types */
+type PathDepth = Array<0>;
+
+/** Keys of data members, methods and type brands are excluded */
+type FieldKey<T> = { [K in keyof T]-?: T[K] extends (...args: Array<any>) => any ? never : K extends typeof WritableBrand ? never : K }[keyof T];
+
+/**
+ * Field paths of a value type in string form
+ * @template T - Value type (e.g. struct or array value)
+ * @remarks Nested up to 5 levels, e.g. `OptionalHeader.DataDirectory[${number}].Size`
+ */
+export type FieldPath<T, D extends PathDepth = []> = D["length"] extends 5 ? never
+    : T extends { readonly [ConstantBrand]: any } ? never
+    : T extends ReadonlyArray<infer E> ? `[${number}]` | `[${number}]${FieldSubPath<E, [...D, 0]>}`
+    : T extends object ? { [K in FieldKey<T> & string]: K | `${K}${FieldSubPath<T[K], [...D, 0]>}` }[FieldKey<T> & string]
+    : never;
+
+/** Continuation of a field path after a key or index */
+type FieldSubPath<T, D extends PathDepth> = T extends ReadonlyArray<any> ? FieldPath<T, D>
+    : T extends { readonly [ConstantBrand]: any } ? never
+    : T extends object ? `.${FieldPath<T, D>}`
+    : never;
+
+/**
+ * Field paths of a value type in segment form
+ * @template T - Value type (e.g. struct or array value)
+ * @remarks Supports symbol keys, e.g. `["OptionalHeader", "DataDirectory", 1, "Size"]`
+ */
+export type FieldPathTuple<T, D extends PathDepth = []> = D["length"] extends 5 ? never
+    : T extends { readonly [ConstantBrand]: any } ? never
+    : T extends ReadonlyArray<infer E> ? readonly [number] | readonly [number, ...FieldPathTuple<E, [...D, 0]>]
+    : T extends object ? { [K in FieldKey<T>]: readonly [K] | readonly [K, ...FieldPathTuple<T[K], [...D, 0]>] }[FieldKey<T>]
+    : never;
+
+/** Splits the first key from a string path, returns `[key, rest]` */
+type SplitPath<P extends string> = P extends `${infer K}.${infer R}`
+    ? K extends `${infer K1}[${infer R1}` ? [K1, `[${R1}.${R}`] : [K, R]
+    : P extends `${infer K}[${infer R}` ? [K, `[${R}`] : [P, ""];
+
+/**
+ * Value type at a field path
+ * @template T - Value type (e.g. struct or array value)
+ * @template P - Field path, key, index or segments
+ */
+export type FieldPathValue<T, P> = P extends number ? (T extends ReadonlyArray<infer E> ? E : unknown)
+    : P extends readonly [] ? T
+    : P extends readonly [infer H, ...infer R] ? (H extends number
+        ? (T extends ReadonlyArray<infer E> ? FieldPathValue<E, R> : unknown)
+        : H extends keyof T ? FieldPathValue<T[H], R> : unknown)
+    : P extends "" ? T
+    : P extends `.${infer R}` ? FieldPathValue<T, R>
+    : P extends `[${number}]${infer R}` ? (T extends ReadonlyArray<infer E> ? FieldPathValue<E, R> : unknown)
+    : P extends keyof T ? T[P]
+    : P extends string ? (SplitPath<P> extends [infer K, infer R] ? (K extends keyof T ? FieldPathValue<T[K], R> : unknown) : unknown)
+    : unknown;
+
 /** Represents either a static value or a getter function */
 export type ValueOrGetter<T> = T | (() => T);
 
@@ -98,7 +500,29 @@ export function get<T>(view: DataView, type: TypeDefinition<T>, offset: number,
     return type.getter({
         view,
         offset,
-        littleEndian
+        littleEndian,
+        safe: safeMode,
+        path: type.name
+    });
+}
+
+/**
+ * Measures typed data in DataView
+ * @param view - Source DataView
+ * @param type - Type definition
+ * @param offset - Byte offset of the instance
+ * @param littleEndian - Byte order (default: big-endian)
+ * @returns Actual byte size, equal to `type.size` for static types
+ * @example 
+ * const size = measure(view, ResourceEntry, 0x200, true);
+ */
+export function measure<T>(view: DataView, type: TypeDefinition<T>, offset: number, littleEndian?: boolean): number {
+    return instanceSize(type, {
+        view,
+        offset,
+        littleEndian,
+        safe: safeMode,
+        path: type.name
     });
 }
 
@@ -109,34 +533,109 @@ export function get<T>(view: DataView, type: TypeDefinition<T>, offset: number,
  * @param offset - Write offset in bytes
  * @param value - Value to encode
  * @param littleEndian - Byte order (default: big-endian)
+ * @param policy - Validation policy of this write, including nested fields (default: global policy)
+ * @throws {ValidationError} If a value cannot be represented and the policy is `throw`
  * @example 
  * set(view, FLOAT, 0x08, 3.14159);
+ * set(view, INT_8, 0x10, 300, false, "clamp"); // Writes 127
  */
-export function set<T>(view: DataView, type: TypeDefinition<T>, offset: number, value: T, littleEndian?: boolean): void {
-    return type.setter({
+export function set<T>(view: DataView, type: TypeDefinition<T>, offset: number, value: WriteValue<T>, littleEndian?: boolean, policy?: ValidationPolicy): void {
+    const context: OperationContext = {
         view,
         offset,
-        littleEndian
-    }, value);
+        littleEndian,
+        safe: safeMode,
+        path: type.name
+    };
+    if (policy === void 0 || policy === validationPolicy) {
+        return writeTracked(type, context, value as T);
+    }
+    // Operations are synchronous, the global policy is restored afterwards
+    const previous = validationPolicy;
+    validationPolicy = policy;
+    try {
+        writeTracked(type, context, value as T);
+    }
+    finally {
+        validationPolicy = previous;
+    }
+}
+
+/** Binary data accepted by {@link decode} and {@link toDataView} */
+export type BinaryLike = ArrayBuffer | SharedArrayBuffer | ArrayBufferView;
+
+/**
+ * Wraps binary data in a DataView covering exactly its bytes
+ * @param bytes - ArrayBuffer, TypedArray (including Node Buffer) or DataView
+ * @returns DataView honouring `byteOffset` and `byteLength` of views
+ * @example 
+ * const view = toDataView(fs.readFileSync("file.bin"));
+ */
+export function toDataView(bytes: BinaryLike): DataView {
+    if (bytes instanceof DataView) {
+        return bytes;
+    }
+    if (ArrayBuffer.isView(bytes)) {
+        return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+    return new DataView(bytes);
+}
+
+/**
+ * Encodes a value into a new byte array
+ * @param type - Type definition
+ * @param value - Value to encode
+ * @param options - Byte order (default: big-endian) and validation policy (default: global policy)
+ * @returns Byte array of exactly `type.size` bytes (the encoded size for dynamic types)
+ * @example 
+ * const bytes = encode(PlayerStruct, player, { littleEndian: true });
+ */
+export function encode<T>(type: TypeDefinition<T>, value: WriteValue<T>, options?: { littleEndian?: boolean, validation?: ValidationPolicy }): Uint8Array {
+    const size = instanceSize(type, {
+        view: new DataView(new ArrayBuffer(0)),
+        offset: 0,
+        littleEndian: options?.littleEndian
+    }, value as T);
+    const bytes = new Uint8Array(size);
+    set(new DataView(bytes.buffer), type, 0, value, options?.littleEndian, options?.validation);
+    return bytes;
+}
+
+/**
+ * Decodes a value from binary data
+ * @param type - Type definition
+ * @param bytes - ArrayBuffer, TypedArray (including Node Buffer) or DataView
+ * @param options - Byte offset relative to `bytes` (default: 0) and byte order (default: big-endian)
+ * @returns Decoded value
+ * @remarks The `byteOffset` of views is honoured, pooled Node Buffers are safe to pass
+ * @example 
+ * const player = decode(PlayerStruct, buffer, { offset: 0x100, littleEndian: true });
+ */
+export function decode<T>(type: TypeDefinition<T>, bytes: BinaryLike, options?: { offset?: number, littleEndian?: boolean }): T {
+    return get(toDataView(bytes), type, options?.offset ?? 0, options?.littleEndian);
 }
 
 /**
  * Converts DataView region to reactive object
- * @param view - Source DataView
+ * @param view - Source DataView, DataView getter or memory binding
  * @param type - Type definition
  * @param offset - Byte offset or offset getter
  * @param littleEndian - Byte order (default: big-endian)
  * @returns Reactive proxy object
- * @remarks Property accesses trigger automatic get/set operations
+ * @remarks 
+ * - Property accesses trigger automatic get/set operations
+ * - The DataView is resolved on every access, use a getter or {@link bindMemory} for growable memory
  * @example 
  * const player = reactive(view, PlayerStruct, 0x100);
  * player.health = 80; // Automatically writes to DataView
  */
-export function reactive<T>(view: DataView, type: TypeDefinition<T>, offset: ValueOrGetter<number>, littleEndian?: boolean): T {
+export function reactive<T>(view: ViewSource, type: TypeDefinition<T>, offset: ValueOrGetter<number>, littleEndian?: boolean): T {
     const baseOffset = typeof offset === "function" ? offset : () => offset;
     return type.reactive({
-        view,
+        view: toViewGetter(view),
         littleEndian,
+        safe: safeMode,
+        path: type.name,
         localOffset: 0,
         baseOffset,
         cacheGetter: () => void 0
@@ -150,7 +649,7 @@ export interface Ref<T> {
 
 /**
  * Creates reactive reference for value types
- * @param view - Source DataView
+ * @param view - Source DataView, DataView getter or memory binding
  * @param type - Type definition
  * @param offset - Byte offset or offset getter
  * @param littleEndian - Byte order (default: big-endian)
@@ -161,16 +660,31 @@ export interface Ref<T> {
  * console.log(hp.value); // Reads from DataView
  * hp.value = 100;       // Writes to DataView
  */
-export function ref<T>(view: DataView, type: TypeDefinition<T>, offset: ValueOrGetter<number>, littleEndian?: boolean): Ref<T> {
+export function ref<T>(view: ViewSource, type: TypeDefinition<T>, offset: ValueOrGetter<number>, littleEndian?: boolean): Ref<T> {
     const baseOffset = typeof offset === "function" ? offset : () => offset;
+    const viewGetter = toViewGetter(view);
+    const safe = safeMode;
+    const path = type.name;
     let cachedGetter: (() => any) | undefined;
+    const source: ReactiveSource = {
+        view: viewGetter,
+        type,
+        littleEndian,
+        path,
+        offset: baseOffset
+    };
     return {
+        [OperationSourceSymbol](key?: string | symbol | number) {
+            return key === void 0 || key === "value" ? source : void 0;
+        },
         [OperationRawSymbol]() {
             return {
                 value: type.getter({
-                    view,
+                    view: viewGetter(),
                     offset: baseOffset(),
-                    littleEndian
+                    littleEndian,
+                    safe,
+                    path
                 })
             };
         },
@@ -179,18 +693,22 @@ export function ref<T>(view: DataView, type: TypeDefinition<T>, offset: ValueOrG
                 return cachedGetter();
             }
             return type.reactive({
-                view,
+                view: viewGetter,
                 littleEndian,
+                safe,
+                path,
                 localOffset: 0,
                 baseOffset,
                 cacheGetter: (getter) => cachedGetter = getter
             });
         },
         set value(value) {
-            type.setter({
-                view,
+            writeTracked(type, {
+                view: viewGetter(),
                 offset: baseOffset(),
-                littleEndian
+                littleEndian,
+                safe,
+                path
             }, value);
         }
     } as Ref<T>;
@@ -206,8 +724,10 @@ export const OperationRawSymbol = Symbol("TYPE_DEFINITION_RAW");
  * Extracts raw value from reactive objects
  * @param value - Reactive proxy or raw value
  * @returns Underlying non-reactive value
+ * @remarks `structuredClone` cannot copy reactive proxies, clone the raw value instead
  * @example 
  * const raw = toRaw(reactiveObj);
+ * const copy = structuredClone(toRaw(reactiveObj));
  */
 export function toRaw<T>(value: T): T {
     const target: any = value;
@@ -230,6 +750,9 @@ export function toRaw<T>(value: T): T {
  */
 export function toRef<T, K extends keyof T>(target: T, key: K): Ref<T[K]> {
     return {
+        [OperationSourceSymbol](subKey?: string | symbol | number) {
+            return subKey === void 0 || subKey === "value" ? toSource(target, key as string | symbol) : void 0;
+        },
         [OperationRawSymbol]() {
             return {
                 value: target[key]
@@ -243,3 +766,150 @@ export function toRef<T, K extends keyof T>(target: T, key: K): Ref<T[K]> {
         }
     } as Ref<T[K]>;
 }
+
+/**
+ * Describes the memory region behind a reactive object or one of its fields
+ */
+export interface ReactiveSource {
+    /** DataView getter of the region */
+    view: () => DataView;
+    /** Type definition of the region */
+    type: TypeDefinition<any>;
+    /** Whether to use little-endian byte order */
+    littleEndian?: boolean;
+    /** Field path of the region, e.g. `Header.DataDirectory[3]` */
+    path: string;
+    /**
+     * Absolute byte offset getter
+     * @remarks Follows dynamic base offsets of reactive objects
+     */
+    offset: () => number;
+}
+
+/**
+ * Symbol for retrieving the memory region behind reactive objects
+ * @remarks Reactive objects should implement this symbol as `(key?) => ReactiveSource | undefined`
+ */
+export const OperationSourceSymbol = Symbol("TYPE_DEFINITION_SOURCE");
+
+/**
+ * Resolves the memory region behind a reactive object
+ * @param value - Reactive proxy or reference
+ * @param key - Optional property key or array index inside the object
+ * @returns Memory region description, `undefined` for non-reactive values or unknown keys
+ * @example 
+ * const source = toSource(player, "health");
+ * console.log(source?.offset(), source?.type.size);
+ */
+export function toSource(value: any, key?: string | symbol | number): ReactiveSource | undefined {
+    if (typeof value === "object" && value !== null) {
+        const getter = value[OperationSourceSymbol];
+        if (typeof getter === "function") {
+            return getter(key);
+        }
+    }
+    return void 0;
+}
+
+/**
+ * Serialization of 64-bit integers by `toJSON` of reactive objects
+ * @remarks
+ * - `string`: decimal string (default)
+ * - `number`: nearest number, precision is lost beyond `Number.MAX_SAFE_INTEGER`
+ * - `throw`: throw TypeError as `JSON.stringify` does
+ */
+export type BigIntPolicy = "string" | "number" | "throw";
+
+/** Global BigInt serialization policy */
+let bigIntPolicy: BigIntPolicy = "string";
+
+/**
+ * Sets how `toJSON` of reactive objects serializes BigInt values
+ * @param policy - BigInt serialization policy
+ * @example
+ * setBigIntPolicy("number");
+ * JSON.stringify(reactive(view, Header, 0, true)); // {"ImageBase":4194304,...}
+ */
+export function setBigIntPolicy(policy: BigIntPolicy): void {
+    bigIntPolicy = policy;
+}
+
+/**
+ * Gets the global BigInt serialization policy
+ * @returns Current BigInt serialization policy
+ */
+export function getBigIntPolicy(): BigIntPolicy {
+    return bigIntPolicy;
+}
+
+/**
+ * Converts a decoded value to a JSON compatible value
+ * @param value - Decoded value
+ * @returns Value with BigInts converted by the BigInt policy and `toJSON` of nested objects applied
+ * @throws {TypeError} If a BigInt is found and the policy is `throw`
+ * @example
+ * toJSONValue({ ImageBase: 0x400000n, Sections: [1n] }); // { ImageBase: "4194304", Sections: ["1"] }
+ */
+export function toJSONValue(value: unknown): unknown {
+    if (typeof value === "bigint") {
+        switch (bigIntPolicy) {
+            case "string":
+                return value.toString();
+            case "number":
+                return Number(value);
+            default:
+                throw new TypeError(`Do not know how to serialize a BigInt (${value}n), see setBigIntPolicy.`);
+        }
+    }
+    if (typeof value !== "object" || value === null) {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(toJSONValue);
+    }
+    const target: any = value;
+    if (typeof target.toJSON === "function") {
+        return toJSONValue(target.toJSON());
+    }
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+        return value;
+    }
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+        result[key] = toJSONValue(target[key]);
+    }
+    return result;
+}
+
+/** Custom inspection symbol of Node.js `util.inspect` */
+const InspectSymbol = Symbol.for("nodejs.util.inspect.custom");
+
+/**
+ * Prepares the target object of a reactive proxy
+ * @param target - Empty object or array wrapped by the proxy
+ * @param raw - Getter of the decoded value
+ * @returns The target object
+ * @remarks `util.inspect` bypasses proxy traps and inspects the target, which shows the decoded value instead
+ */
+export function reactiveTarget<T extends object>(target: T, raw: () => unknown): T {
+    Object.defineProperty(target, InspectSymbol, {
+        value: () => raw(),
+        configurable: true
+    });
+    return target;
+}
+
+/**
+ * Describes a field of a reactive proxy as an own data property
+ * @param value - Current field value
+ * @returns Enumerable descriptor for `getOwnPropertyDescriptor` traps, enables `Object.keys` and spreading
+ */
+export function fieldDescriptor(value: unknown): PropertyDescriptor {
+    return {
+        value,
+        writable: true,
+        enumerable: true,
+        configurable: true
+    };
+}
@@ -1,13 +1,68 @@
-import { TypeDefinitionSymbol, OperationRawSymbol, toRaw } from "./core";
+import { TypeDefinitionSymbol, OperationRawSymbol, OperationSourceSymbol, toRaw, joinPath, isPathTracked, parsePath, isSafeMode, instanceSize, validateLength, toJSONValue, reactiveTarget, fieldDescriptor, checkBounds, getValidationPolicy, reactive as toReactive } from "./core";
 import { UNKNOWN } from "./types";
-import type { OperationGetter, OperationSetter, OperationReactive } from "./core";
-import type { TypeDefinition, OperationContextDynamic } from "./core";
+import { getNativeAccessor, getTypedArrayConstructor, platformLittleEndian, readNative, writeNative } from "./native";
+import { writeTracked } from "./watch";
+import type { OperationGetter, OperationSetter, OperationReactive, OperationMeasure } from "./core";
+import type { TypeDefinition, OperationContext, OperationContextDynamic, ReactiveSource, WriteValue } from "./core";
+import type { FieldPath, FieldPathTuple, FieldPathValue, FieldPathSegments, ValueOrGetter } from "./core";
+import type { ViewSource } from "./memory";
+
+/**
+ * Array length configuration
+ * @remarks
+ * - `number`: fixed length
+ * - Struct key: length is read from a sibling property of the enclosing struct
+ * - Function: length is computed from the enclosing struct value
+ */
+export type ArrayLength = number | string | symbol | ((parent: any) => number);
+
+/**
+ * Element index or nested field path of an array
+ * @template T - Element type of the array
+ * @example
+ * "[1].VirtualAddress"
+ * [1, "VirtualAddress"]
+ */
+export type ArrayPath<T> = number | FieldPath<Array<T>> | FieldPathTuple<Array<T>>;
+
+/**
+ * Reactive proxy of an array instance
+ * @template T - Element type of the array
+ * @remarks Reactive arrays returned by {@link reactive} implement this interface, typed as `Array<T>`
+ */
+export interface ReactiveArray<T> extends Array<T> {
+    /**
+     * Creates a live window over a range of elements
+     * @param start - First index, negative values count from the end (default: 0)
+     * @param end - Index after the last element, negative values count from the end (default: length)
+     * @returns Reactive array sharing memory with this array
+     * @remarks The range is resolved on creation, the window keeps following the base offset of this array
+     */
+    subarray(start?: number, end?: number): ReactiveArray<T>;
+}
+
+/** Array methods reordering or overwriting elements in place */
+const mutatingMethods = new Set<string | symbol>(["sort", "reverse", "fill", "copyWithin"]);
+
+/** Array methods changing the length */
+const resizingMethods = new Set<string | symbol>(["push", "pop", "shift", "unshift", "splice"]);
+
+/**
+ * Origin of window definitions created by `subarray`, keyed by their reactive operation
+ * @remarks Elements of windows report the path and index of the array they were taken from
+ */
+const windowOrigins = new WeakMap<Function, { path: string | undefined, start: number }>();
+
+/** Unique symbol identifying array definitions */
+export const ArrayDefinitionSymbol = Symbol("ARRAY_TYPE_DEFINITION");
 
 /**
  * Immutable array type definition (frozen state)
  * @template T - Element type of the array
  */
 export interface ArrayDefinitionFreezed<T> extends TypeDefinition<Array<T>> {
+    /** Array identification marker */
+    isArrayDefinition: typeof ArrayDefinitionSymbol;
     /** Type definition for array elements */
     element: TypeDefinition<T>;
     /**
@@ -16,8 +71,51 @@ export interface ArrayDefinitionFreezed<T> extends TypeDefinition<Array<T>> {
      * fill in the remaining positions with values, Default is not filled
      */
     filler: T | undefined;
-    /** Fixed length of the array */
+    /** Fixed length of the array (0 for variable-length arrays) */
     length: number;
+    /**
+     * Source of the variable length
+     * @remarks Sibling key or function of the enclosing struct value, `undefined` for fixed-length arrays
+     */
+    lengthFrom: string | symbol | ((parent: any) => number) | undefined;
+    /**
+     * Resolves the element count
+     * @param parent - Value or reactive proxy of the enclosing struct
+     * @returns Fixed length, or length resolved from the parent
+     * @throws {Error} If a variable-length array has no parent
+     */
+    lengthOf(parent?: any): number;
+    /** Whether the array has a variable length or dynamic-size elements */
+    dynamic: boolean;
+    /**
+     * Get the relative offset of element
+     * @param path - Element index or nested field path, e.g. `[1].VirtualAddress`
+     * @param baseOffset - A Base offset add to element offset
+     * @param view - DataView holding an array instance at `baseOffset`, required for the actual offset of dynamic elements
+     * @param littleEndian - Byte order of the instance
+     * @returns Relative offset
+     * @throws {RangeError} If the index is out of range of a fixed-length array
+     */
+    offsetOf(path: ArrayPath<T>, baseOffset?: number, view?: DataView, littleEndian?: boolean): number;
+    /**
+     * Get the byte size of element
+     * @param path - Element index or nested field path
+     * @param baseOffset - Offset of the array instance
+     * @param view - DataView holding an array instance at `baseOffset`, required for the actual size of dynamic elements
+     * @param littleEndian - Byte order of the instance
+     * @returns Byte size
+     * @throws {RangeError} If the index is out of range of a fixed-length array
+     */
+    sizeOf(path: ArrayPath<T>, baseOffset?: number, view?: DataView, littleEndian?: boolean): number;
+    /**
+     * Get the type definition of element
+     * @param path - Element index or nested field path
+     * @returns Type definition at the path
+     * @template P - Field path
+     */
+    typeOf<P extends ArrayPath<T>>(path: P): TypeDefinition<FieldPathValue<Array<T>, P>>;
+    /** Instance size implementation, sums element sizes for dynamic elements */
+    measure: OperationMeasure<Array<T>>;
     /**
      * Creates a mutable clone of the array definition
      * @param name - Optional new name for cloned definition
@@ -71,10 +169,14 @@ export interface ArrayDefinition<T> extends ArrayDefinitionFreezed<T> {
     setElement<M>(type?: TypeDefinition<M>, filler?: M): ArrayDefinition<M>;
     /**
      * Changes array length
-     * @param length - New element count
+     * @param length - New element count, sibling key or function of the enclosing struct value
      * @returns Current instance for chaining
+     * @example 
+     * defineStruct()
+     *     .addProperty("count", types.UINT_16)
+     *     .addProperty("items", defineArray(Item).setLength("count"))
      */
-    setLength(length?: number): ArrayDefinition<T>;
+    setLength(length?: ArrayLength): ArrayDefinition<T>;
     /**
      * Freezes the type definition to prevent modification
      * @returns Immutable version of the type definition
@@ -98,7 +200,7 @@ export function defineArray(name?: string): ArrayDefinition<unknown>;
  * Creates configurable array type definition
  * @overload
  * @param element - Element type definition
- * @param length - Array element count
+ * @param length - Array element count, sibling key or function of the enclosing struct value
  * @param name - Optional array type name
  * @param filler - When using an array setter, 
  * if the length of the incoming data is less than the length of the array,
@@ -107,7 +209,7 @@ export function defineArray(name?: string): ArrayDefinition<unknown>;
  * @template T - Element type
  * @example 
  */
-export function defineArray<T>(element: TypeDefinition<T>, length?: number, filler?: T, name?: string): ArrayDefinition<T>;
+export function defineArray<T>(element: TypeDefinition<T>, length?: ArrayLength, filler?: T, name?: string): ArrayDefinition<T>;
 /**
  * Array definition implementation
  * @param param0 - Element type or name
@@ -118,13 +220,14 @@ export function defineArray<T>(element: TypeDefinition<T>, length?: number, fill
  * fill in the remaining positions with values, Default is not filled
  * @returns Array definition instance
  */
-export function defineArray<T>(param0?: TypeDefinition<T> | string, length?: number, filler?: T, name?: string): ArrayDefinition<T> {
+export function defineArray<T>(param0?: TypeDefinition<T> | string, length?: ArrayLength, filler?: T, name?: string): ArrayDefinition<T> {
     let _name: string | undefined;
     let _size: number | undefined;
     let _align: number | undefined;
     let _element: TypeDefinition<any> = UNKNOWN;
     let _filler: any | undefined;
     let _length: number = 0;
+    let _lengthFrom: string | symbol | ((parent: any) => number) | undefined;
     const setName: ArrayDefinition<T>["setName"] = (name) => {
         _name = name;
         return typeDefinition;
@@ -143,65 +246,236 @@ export function defineArray<T>(param0?: TypeDefinition<T> | string, length?: num
         return typeDefinition as any;
     };
     const setLength: ArrayDefinition<T>["setLength"] = (length) => {
-        _length = length ?? 0;
+        if (typeof length === "number" || length === void 0) {
+            _length = length ?? 0;
+            _lengthFrom = void 0;
+        }
+        else {
+            _length = 0;
+            _lengthFrom = length;
+        }
         return typeDefinition;
     };
+    const lengthOf: ArrayDefinition<T>["lengthOf"] = (parent) => {
+        if (_lengthFrom === void 0) {
+            return _length;
+        }
+        if (typeof parent !== "object" || parent === null) {
+            throw new Error(`[${typeDefinition.name}] Variable-length array must be a property of a struct.`);
+        }
+        const length = typeof _lengthFrom === "function" ? _lengthFrom(parent) : parent[_lengthFrom];
+        return Math.max(Number(length) || 0, 0);
+    };
     const freeze: ArrayDefinition<T>["freeze"] = () => {
         const newDefinition = clone();
         return Object.freeze({
             isTypeDefinition: TypeDefinitionSymbol,
+            isArrayDefinition: ArrayDefinitionSymbol,
             name: newDefinition.name,
             size: newDefinition.size,
             align: newDefinition.align,
             element: newDefinition.element,
             filler: newDefinition.filler,
             length: newDefinition.length,
+            lengthFrom: newDefinition.lengthFrom,
+            lengthOf: newDefinition.lengthOf,
+            dynamic: newDefinition.dynamic,
+            offsetOf: newDefinition.offsetOf,
+            sizeOf: newDefinition.sizeOf,
+            typeOf: newDefinition.typeOf,
+            measure: newDefinition.measure,
             getter: newDefinition.getter,
             setter: newDefinition.setter,
             reactive: newDefinition.reactive,
             clone: newDefinition.clone
         });
     };
-    const clone: ArrayDefinition<T>["clone"] = (name) => defineArray<T>(_element, _length, _filler, name ?? _name)
+    const clone: ArrayDefinition<T>["clone"] = (name) => defineArray<T>(_element, _lengthFrom ?? _length, _filler, name ?? _name)
         .setSize(_size)
         .setAlign(_align);
-    const getter: OperationGetter<Array<T>> = ({ view, offset, littleEndian }) => {
-        const array = new Array<T>(_length);
-        for (let index = 0; index < _length; index++) {
-            array[index] = _element.getter({
+    /** Resolves the index of the first path segment */
+    const splitPath = (path: number | string | FieldPathSegments): [number, Array<string | symbol | number>] => {
+        const [index, ...rest] = parsePath(path);
+        if (typeof index !== "number" || !Number.isInteger(index)) {
+            throw new Error(`[${typeDefinition.name}] Array path must start with an index.`);
+        }
+        if (_lengthFrom === void 0 && (index < 0 || index >= _length)) {
+            throw new RangeError(`[${typeDefinition.name}] Index ${index} is out of range 0..${_length - 1}.`);
+        }
+        return [index, rest];
+    };
+    /** Definition resolving the remaining path segments of elements */
+    const nestedOf = (): ArrayDefinitionFreezed<any> => {
+        const type = _element as Partial<ArrayDefinitionFreezed<any>>;
+        if (typeof type.offsetOf !== "function" || typeof type.sizeOf !== "function" || typeof type.typeOf !== "function") {
+            throw new Error(`[${typeDefinition.name}] Elements have no nested fields.`);
+        }
+        return type as ArrayDefinitionFreezed<any>;
+    };
+    const offsetOf: ArrayDefinition<T>["offsetOf"] = (path, baseOffset, view, littleEndian) => {
+        const [index, rest] = splitPath(path);
+        const offset = view ? elementOffset(view, baseOffset ?? 0, index, littleEndian) : index * _element.size;
+        if (rest.length > 0) {
+            return nestedOf().offsetOf(rest as any, (baseOffset ?? 0) + offset, view, littleEndian);
+        }
+        if (typeof baseOffset === "number") {
+            return offset + baseOffset;
+        }
+        return offset;
+    };
+    const sizeOf: ArrayDefinition<T>["sizeOf"] = (path, baseOffset, view, littleEndian) => {
+        const [index, rest] = splitPath(path);
+        if (rest.length === 0 && (!view || !_element.dynamic)) {
+            return _element.size;
+        }
+        const offset = (baseOffset ?? 0) + (view ? elementOffset(view, baseOffset ?? 0, index, littleEndian) : index * _element.size);
+        if (rest.length > 0) {
+            return nestedOf().sizeOf(rest as any, offset, view, littleEndian);
+        }
+        return instanceSize(_element, { view: view!, offset, littleEndian });
+    };
+    const typeOf = ((path: number | string | FieldPathSegments) => {
+        const [, rest] = splitPath(path);
+        return rest.length > 0 ? nestedOf().typeOf(rest as any) : _element;
+    }) as ArrayDefinition<T>["typeOf"];
+    const measure: OperationMeasure<Array<T>> = ({ view, offset, littleEndian, parent }, value) => {
+        if (_size !== void 0) {
+            return Math.max(_size, 0);
+        }
+        const length = lengthOf(parent);
+        if (!_element.dynamic) {
+            return _element.size * length;
+        }
+        let size = 0;
+        for (let index = 0; index < length; index++) {
+            const context: OperationContext = { view, offset: offset + size, littleEndian };
+            // Missing values keep the stored element unless a filler is written
+            const element = value && index < value.length ? value[index] : value ? _filler : void 0;
+            size += element === void 0 ? instanceSize(_element, context) : instanceSize(_element, context, element);
+        }
+        return size;
+    };
+    /**
+     * Relative offset of element in live data
+     * @remarks Sums the preceding element sizes for dynamic elements
+     */
+    const elementOffset = (view: DataView, offset: number, index: number, littleEndian?: boolean): number => {
+        if (!_element.dynamic) {
+            return index * _element.size;
+        }
+        let position = 0;
+        for (let current = 0; current < index; current++) {
+            position += instanceSize(_element, { view, offset: offset + position, littleEndian });
+        }
+        return position;
+    };
+    const getter: OperationGetter<Array<T>> = ({ view, offset, littleEndian, safe, path, parent }) => {
+        const length = lengthOf(parent);
+        // Built-in numeric elements are copied in bulk, out of range reads fall through to report the failing element
+        const accessor = getNativeAccessor(_element);
+        if (accessor) {
+            const values = readNative(view, accessor.method, offset, length, littleEndian);
+            if (values) {
+                return Array.from<T>(values);
+            }
+        }
+        const array = new Array<T>(length);
+        const dynamic = _element.dynamic;
+        let position = offset;
+        for (let index = 0; index < length; index++) {
+            const context: OperationContext = {
                 view,
-                offset: offset + index * _element.size,
-                littleEndian
-            });
+                offset: dynamic ? position : offset + index * _element.size,
+                littleEndian,
+                safe,
+                path: isPathTracked(safe) ? joinPath(path, index) : void 0
+            };
+            array[index] = _element.getter(context);
+            if (dynamic) {
+                position += instanceSize(_element, context);
+            }
         }
         return array;
     };
-    const setter: OperationSetter<Array<T>> = ({ view, offset, littleEndian }, value) => {
+    const setter: OperationSetter<Array<T>> = ({ view, offset, littleEndian, safe, path, parent }, value) => {
+        const length = lengthOf(parent);
         const valueLength = value.length;
-        const minLength = Math.min(valueLength, _length);
-        for (let index = 0; index < minLength; index++) {
-            _element.setter({
+        validateLength(typeDefinition, path, value, valueLength, length);
+        // Built-in numeric elements are written in bulk unless the validation policy checks every value
+        const accessor = getNativeAccessor(_element);
+        if (accessor && getValidationPolicy() === "wrap") {
+            const count = _filler !== void 0 ? length : Math.min(valueLength, length);
+            let values: ArrayLike<T> = value;
+            if (count !== valueLength) {
+                const copy: Array<T> = Array.prototype.slice.call(value, 0, count);
+                for (let index = valueLength; index < count; index++) {
+                    copy[index] = _filler!;
+                }
+                values = copy;
+            }
+            if (writeNative(view, accessor.method, offset, values, littleEndian)) {
+                return;
+            }
+        }
+        const dynamic = _element.dynamic;
+        let position = offset;
+        const write = (index: number, element: T) => {
+            const context: OperationContext = {
                 view,
-                offset: offset + index * _element.size,
-                littleEndian
-            }, value[index]);
+                offset: dynamic ? position : offset + index * _element.size,
+                littleEndian,
+                safe,
+                path: isPathTracked(safe) ? joinPath(path, index) : void 0
+            };
+            _element.setter(context, element);
+            if (dynamic) {
+                position += instanceSize(_element, context, element);
+            }
+        };
+        const minLength = Math.min(valueLength, length);
+        for (let index = 0; index < minLength; index++) {
+            write(index, value[index]);
         }
-        if (_filler !== void 0 && valueLength < _length) {
-            for (let index = valueLength; index < _length; index++) {
-                _element.setter({
-                    view,
-                    offset: offset + index * _element.size,
-                    littleEndian
-                }, _filler);
+        if (_filler !== void 0 && valueLength < length) {
+            for (let index = valueLength; index < length; index++) {
+                write(index, _filler);
             }
         }
     };
-    const reactive: OperationReactive<Array<T>> = ({ view, littleEndian, localOffset, baseOffset, cacheGetter }) => {
+    const reactive: OperationReactive<Array<T>> = ({ view, littleEndian, safe, path, parent, localOffset, baseOffset, cacheGetter }) => {
+        const getLength = () => lengthOf(parent);
+        const origin = windowOrigins.get(reactive);
+        const elementPath = (index: number) => origin ? joinPath(origin.path, origin.start + index) : joinPath(path, index);
         const proxyToRaw = () => typeDefinition.getter({
-            view,
+            view: view(),
             offset: baseOffset() + localOffset,
-            littleEndian
+            littleEndian,
+            safe,
+            path,
+            parent
         });
+        const proxyToSource = (key?: string | symbol | number): ReactiveSource | undefined => {
+            if (key === void 0) {
+                return {
+                    view,
+                    type: typeDefinition,
+                    littleEndian,
+                    path: path ?? typeDefinition.name,
+                    offset: () => baseOffset() + localOffset
+                };
+            }
+            const index = typeof key === "symbol" ? NaN : Number(key);
+            if (!Number.isInteger(index) || index < 0 || index >= getLength()) {
+                return void 0;
+            }
+            return {
+                view,
+                type: _element,
+                littleEndian,
+                path: elementPath(index),
+                offset: () => baseOffset() + localOffset + elementOffset(view(), baseOffset() + localOffset, index, littleEndian)
+            };
+        };
         // Element getter
         const getterMap = new Map<number, () => T>();
         const getElement = (index: number): T => {
@@ -209,9 +483,19 @@ export function defineArray<T>(param0?: TypeDefinition<T> | string, length?: num
             if (getter) {
                 return getter();
             }
-            const context: OperationContextDynamic = {
+            const context: OperationContextDynamic = _element.dynamic ? {
+                view,
+                littleEndian,
+                safe,
+                path: elementPath(index),
+                localOffset: 0,
+                baseOffset: () => baseOffset() + localOffset + elementOffset(view(), baseOffset() + localOffset, index, littleEndian),
+                cacheGetter: getter => getterMap.set(index, getter)
+            } : {
                 view,
                 littleEndian,
+                safe,
+                path: elementPath(index),
                 localOffset: localOffset + index * _element.size,
                 baseOffset,
                 cacheGetter: getter => getterMap.set(index, getter)
@@ -220,17 +504,39 @@ export function defineArray<T>(param0?: TypeDefinition<T> | string, length?: num
             getterMap.set(index, getter);
             return getter();
         };
-        // To Array
-        let cachedArray: Array<T> | undefined;
+        // To Array, elements of nested types stay reactive
         const getArray = (): Array<T> => {
-            if (cachedArray) {
-                return cachedArray;
+            const length = getLength();
+            const array = new Array<T>(length);
+            for (let index = 0; index < length; index++) {
+                array[index] = getElement(index);
             }
-            cachedArray = new Array(_length);
-            for (let index = 0; index < _length; index++) {
-                cachedArray[index] = getElement(index);
+            return array;
+        };
+        // Reorders or overwrites a copy, then writes the elements that changed
+        const callMutating = (func: Function, param: Array<any>): void => {
+            const array = getArray();
+            const copyArray = array.slice();
+            func.apply(copyArray, param);
+            // Raw values are taken before any write, moved elements may be overwritten
+            const rawArray = copyArray.map(x => toRaw(x));
+            // Elements of other sizes would move their successors
+            if (_element.dynamic) {
+                writeTracked(typeDefinition, {
+                    view: view(),
+                    offset: baseOffset() + localOffset,
+                    littleEndian,
+                    safe,
+                    path,
+                    parent
+                }, rawArray);
+                return;
+            }
+            for (let index = 0; index < rawArray.length; index++) {
+                if (!Object.is(copyArray[index], array[index])) {
+                    proxy[index] = rawArray[index];
+                }
             }
-            return cachedArray;
         };
         // Common array func proxy
         const callArray = (key: any): any => {
@@ -238,56 +544,93 @@ export function defineArray<T>(param0?: TypeDefinition<T> | string, length?: num
             if (typeof func !== "function") {
                 return void 0;
             }
-            const caller = (...param: any[]) => {
-                const array = getArray();
-                const copyArray = array.slice();
-                const result = func.call(copyArray, ...param);
-                typeDefinition.setter({
-                    view,
-                    offset: baseOffset() + localOffset,
-                    littleEndian
-                }, copyArray.map(x => toRaw(x)));
-                return result;
+            let caller: (...param: Array<any>) => any;
+            if (resizingMethods.has(key)) {
+                caller = () => {
+                    throw new TypeError(`[${path ?? typeDefinition.name}] Cannot call ${key}, reactive arrays have a fixed length.`);
+                };
+            }
+            else if (mutatingMethods.has(key)) {
+                caller = (...param) => {
+                    callMutating(func, param);
+                    // Methods return the array itself
+                    return proxy;
+                };
+            }
+            else {
+                caller = (...param) => func.apply(getArray(), param);
             }
             internal.set(key, caller);
             return caller;
         };
         // Symbol.iterator
         const iterator = function* (): ArrayIterator<T> {
-            for (let index = 0; index < _length; index++) {
+            const length = getLength();
+            for (let index = 0; index < length; index++) {
                 yield getElement(index);
             }
         };
         const forEach: Array<T>["forEach"] = (callback, thisArg) => {
-            for (let index = 0; index < _length; index++) {
+            const length = getLength();
+            for (let index = 0; index < length; index++) {
                 callback.call(thisArg, getElement(index), index, proxy);
             }
         };
         const map: Array<T>["map"] = (callback, thisArg) => {
-            const result = new Array<any>(_length);
-            for (let index = 0; index < _length; index++) {
+            const length = getLength();
+            const result = new Array<any>(length);
+            for (let index = 0; index < length; index++) {
                 result[index] = callback.call(thisArg, getElement(index), index, proxy);
             }
             return result;
         };
+        // Live window over a range of elements
+        const subarray: ReactiveArray<T>["subarray"] = (start, end) => {
+            const length = getLength();
+            const clamp = (index: number) => index < 0 ? Math.max(length + index, 0) : Math.min(index, length);
+            const from = clamp(Math.trunc(start ?? 0) || 0);
+            const to = Math.max(clamp(end === void 0 ? length : Math.trunc(end) || 0), from);
+            const window = defineArray(_element, to - from).freeze();
+            // Windows of windows index into the original array
+            const { path: originPath, start: first } = origin ?? { path, start: 0 };
+            windowOrigins.set(window.reactive, { path: originPath, start: first + from });
+            return window.reactive({
+                view,
+                littleEndian,
+                safe,
+                path: `${originPath ?? typeDefinition.name}[${first + from}..${first + to}]`,
+                localOffset: 0,
+                // Follows the base offset of the parent and preceding dynamic elements
+                baseOffset: () => {
+                    const offset = baseOffset() + localOffset;
+                    return offset + elementOffset(view(), offset, from, littleEndian);
+                },
+                cacheGetter: () => void 0
+            }) as ReactiveArray<T>;
+        };
         // Built-in props
         const internal = new Map<symbol | string, any>([
-            ["length", _length],
             ["forEach", forEach],
             ["map", map],
+            ["subarray", subarray],
             [Symbol.iterator, iterator],
-            [OperationRawSymbol, proxyToRaw]
+            [OperationRawSymbol, proxyToRaw],
+            [OperationSourceSymbol, proxyToSource],
+            ["toJSON", () => toJSONValue(proxyToRaw())]
         ]);
         // getter
         const get: ProxyHandler<Array<T>>["get"] = (target, key) => {
             if (typeof key === "symbol") {
                 return internal.has(key) ? internal.get(key) : callArray(key);
             }
+            if (key === "length") {
+                return getLength();
+            }
             const index = Number(key);
             if (isNaN(index)) {
                 return internal.has(key) ? internal.get(key) : callArray(key);
             }
-            if (index < 0 || index >= _length) {
+            if (index < 0 || index >= getLength()) {
                 return void 0;
             }
             return getElement(index);
@@ -301,13 +644,15 @@ export function defineArray<T>(param0?: TypeDefinition<T> | string, length?: num
             if (isNaN(index)) {
                 return false;
             }
-            if (index < 0 || index >= _length) {
+            if (index < 0 || index >= getLength()) {
                 return false;
             }
-            _element.setter({
-                view,
-                offset: baseOffset() + localOffset + index * _element.size,
-                littleEndian: littleEndian
+            writeTracked(_element, {
+                view: view(),
+                offset: baseOffset() + localOffset + elementOffset(view(), baseOffset() + localOffset, index, littleEndian),
+                littleEndian: littleEndian,
+                safe,
+                path: elementPath(index)
             }, value);
             return true;
         };
@@ -319,29 +664,47 @@ export function defineArray<T>(param0?: TypeDefinition<T> | string, length?: num
             if (isNaN(index)) {
                 return false;
             }
-            if (index < 0 || index >= _length) {
+            if (index < 0 || index >= getLength()) {
                 return false;
             }
             return true;
         };
         let keys: string[] | undefined;
+        // Indices followed by the non-configurable length of the target array
         const ownKeys: ProxyHandler<Array<T>>["ownKeys"] = () => {
-            if (keys) {
+            const length = getLength();
+            if (keys && keys.length === length + 1) {
                 return keys;
             }
-            keys = new Array(_length);
-            for (let index = 0; index < _length; index++) {
+            keys = new Array(length + 1);
+            for (let index = 0; index < length; index++) {
                 keys[index] = String(index);
             }
+            keys[length] = "length";
             return keys;
         };
+        const getOwnPropertyDescriptor: ProxyHandler<Array<T>>["getOwnPropertyDescriptor"] = (target, key) => {
+            if (key === "length") {
+                return {
+                    value: getLength(),
+                    writable: true,
+                    enumerable: false,
+                    configurable: false
+                };
+            }
+            if (!has(target, key)) {
+                return void 0;
+            }
+            return fieldDescriptor(get(target, key, proxy));
+        };
         const defineProperty: ProxyHandler<Array<T>>["defineProperty"] = () => false;
         const deleteProperty: ProxyHandler<Array<T>>["deleteProperty"] = () => false;
-        const proxy = new Proxy([] as Array<T>, {
+        const proxy: Array<T> = new Proxy(reactiveTarget([] as Array<T>, proxyToRaw), {
             get,
             set,
             has,
             ownKeys,
+            getOwnPropertyDescriptor,
             defineProperty,
             deleteProperty
         });
@@ -350,8 +713,15 @@ export function defineArray<T>(param0?: TypeDefinition<T> | string, length?: num
     };
     const typeDefinition: ArrayDefinition<T> = {
         isTypeDefinition: TypeDefinitionSymbol,
+        isArrayDefinition: ArrayDefinitionSymbol,
         get name() {
-            return _name ?? `${_element.name}[${_length}]`;
+            if (_name) {
+                return _name;
+            }
+            if (_lengthFrom === void 0) {
+                return `${_element.name}[${_length}]`;
+            }
+            return `${_element.name}[${typeof _lengthFrom === "function" ? "?" : String(_lengthFrom)}]`;
         },
         get size() {
             return Math.max(_size ?? _element.size * _length, 0);
@@ -368,6 +738,17 @@ export function defineArray<T>(param0?: TypeDefinition<T> | string, length?: num
         get length() {
             return _length;
         },
+        get lengthFrom() {
+            return _lengthFrom;
+        },
+        get dynamic() {
+            return _lengthFrom !== void 0 || _element.dynamic === true;
+        },
+        offsetOf,
+        sizeOf,
+        typeOf,
+        measure,
+        lengthOf,
         getter,
         setter,
         reactive,
@@ -390,6 +771,32 @@ export function defineArray<T>(param0?: TypeDefinition<T> | string, length?: num
     return typeDefinition;
 }
 
+/**
+ * Type guard for array definitions
+ * @param test - Value to check
+ * @returns Whether the value is an array definition
+ */
+export function isArrayDefinition(test: any): test is ArrayDefinitionFreezed<any> {
+    if (typeof test !== "object" || test === null) {
+        return false;
+    }
+    if (test.isArrayDefinition === ArrayDefinitionSymbol) {
+        return true;
+    }
+    return false;
+}
+
+/**
+ * Options of {@link getArray}
+ */
+export interface GetArrayOptions {
+    /**
+     * Return a TypedArray instead of an Array
+     * @remarks Only for built-in integer and float types, `FLOAT_16` values are returned as `Float32Array` if the runtime lacks `Float16Array`
+     */
+    typed?: boolean;
+}
+
 /**
  * Reads array of typed data from DataView
  * @param view - Source DataView
@@ -397,18 +804,76 @@ export function defineArray<T>(param0?: TypeDefinition<T> | string, length?: num
  * @param offset - Starting offset in bytes
  * @param length - Number of elements to read
  * @param littleEndian - Byte order (default: big-endian)
+ * @param options - Set `typed` to return a TypedArray
+ * @returns TypedArray of decoded values, detached from the DataView
+ * @throws {Error} If the type has no TypedArray counterpart
+ * @example
+ * const samples = getArray(view, types.INT_16, 0x2c, 44100, true, { typed: true }); // Int16Array
+ */
+export function getArray<T extends number | bigint>(view: DataView, type: TypeDefinition<T>, offset: number, length: number, littleEndian: boolean | undefined, options: GetArrayOptions & { typed: true }): TypedArrayOf<T>;
+/**
+ * Reads array of typed data from DataView
+ * @param view - Source DataView
+ * @param type - Element type definition
+ * @param offset - Starting offset in bytes
+ * @param length - Number of elements to read
+ * @param littleEndian - Byte order (default: big-endian)
+ * @param options - Read options
  * @returns Array of decoded values
+ * @remarks Built-in integer and float types are copied in bulk instead of calling the getter per element
  * @example 
  * const coords = getArray(view, FLOAT, 0x20, 3);
  */
-export function getArray<T>(view: DataView, type: TypeDefinition<T>, offset: number, length: number, littleEndian?: boolean): Array<T> {
+export function getArray<T>(view: DataView, type: TypeDefinition<T>, offset: number, length: number, littleEndian?: boolean, options?: GetArrayOptions): Array<T>;
+export function getArray<T>(view: DataView, type: TypeDefinition<T>, offset: number, length: number, littleEndian?: boolean, options?: GetArrayOptions): Array<T> | TypedArrayOf<any> {
+    const accessor = getNativeAccessor(type);
+    if (options?.typed) {
+        if (!accessor) {
+            throw new Error(`[${type.name}] Type has no TypedArray counterpart.`);
+        }
+        const typed = readNative(view, accessor.method, offset, length, littleEndian);
+        if (typed) {
+            return typed;
+        }
+        // Missing TypedArray class, or out of range reads reporting the failing element
+        const values = getArray(view, type, offset, length, littleEndian);
+        const array = new (getTypedArrayConstructor(accessor.method) ?? Float32Array)(length);
+        for (let index = 0; index < length; index++) {
+            array[index] = values[index];
+        }
+        return array;
+    }
+    if (accessor) {
+        const typed = readNative(view, accessor.method, offset, length, littleEndian);
+        if (typed) {
+            return Array.from<T>(typed);
+        }
+    }
     const result = new Array<T>(length);
     const size = type.size;
+    const safe = isSafeMode();
+    // Dynamic elements are stepped by their measured size
+    if (type.dynamic) {
+        for (let i = 0; i < length; i++) {
+            const context: OperationContext = {
+                view,
+                offset,
+                littleEndian,
+                safe,
+                path: isPathTracked(safe) ? joinPath(void 0, i) : void 0
+            };
+            result[i] = type.getter(context);
+            offset += instanceSize(type, context);
+        }
+        return result;
+    }
     for (let i = 0; i < length; i++) {
         result[i] = type.getter({
             view,
             offset: offset + size * i,
-            littleEndian
+            littleEndian,
+            safe,
+            path: isPathTracked(safe) ? joinPath(void 0, i) : void 0
         });
     }
     return result;
@@ -419,19 +884,127 @@ export function getArray<T>(view: DataView, type: TypeDefinition<T>, offset: num
  * @param view - Target DataView
  * @param type - Element type definition
  * @param offset - Starting offset in bytes
- * @param array - Values to encode
+ * @param array - Values to encode, TypedArrays are accepted
  * @param littleEndian - Byte order (default: big-endian)
+ * @remarks Built-in integer and float types are written in bulk while the validation policy is `wrap`
  * @example 
  * setArray(view, INT, 0x30, [1, 2, 3]);
  */
-export function setArray<T>(view: DataView, type: TypeDefinition<T>, offset: number, array: ArrayLike<T>, littleEndian?: boolean): void {
+export function setArray<T>(view: DataView, type: TypeDefinition<T>, offset: number, array: ArrayLike<WriteValue<T>>, littleEndian?: boolean): void {
+    const accessor = getNativeAccessor(type);
+    if (accessor && getValidationPolicy() === "wrap" && writeNative(view, accessor.method, offset, array, littleEndian)) {
+        return;
+    }
     const length = array.length;
     const size = type.size;
+    const safe = isSafeMode();
+    // Dynamic elements are stepped by their encoded size
+    if (type.dynamic) {
+        for (let i = 0; i < length; i++) {
+            const context: OperationContext = {
+                view,
+                offset,
+                littleEndian,
+                safe,
+                path: isPathTracked(safe) ? joinPath(void 0, i) : void 0
+            };
+            type.setter(context, array[i] as T);
+            offset += instanceSize(type, context, array[i] as T);
+        }
+        return;
+    }
     for (let i = 0; i < length; i++) {
         type.setter({
             view,
             offset: offset + size * i,
-            littleEndian
-        }, array[i]);
+            littleEndian,
+            safe,
+            path: isPathTracked(safe) ? joinPath(void 0, i) : void 0
+        }, array[i] as T);
     }
 }
+
+/**
+ * TypedArray class matching the element values of a numeric array
+ * @template T - Element type of the array
+ */
+export type TypedArrayOf<T> = T extends bigint ? BigInt64Array | BigUint64Array
+    : Int8Array | Uint8Array | Int16Array | Uint16Array | Int32Array | Uint32Array | Float32Array | Float64Array;
+
+/**
+ * TypedArray access to a numeric array instance
+ * @template A - TypedArray class
+ */
+export interface TypedArrayView<A> {
+    /** Elements of the instance */
+    array: A;
+    /**
+     * Whether `array` aliases the memory of the DataView
+     * @remarks `false` if the offset is misaligned, the byte order differs from the platform or the runtime lacks the TypedArray class, `array` is a copy then
+     */
+    shared: boolean;
+    /** Writes a copied `array` back to the DataView, does nothing for shared arrays */
+    flush(): void;
+}
+
+/**
+ * Creates a TypedArray over a fixed-length array of built-in numeric types
+ * @param view - Source DataView
+ * @param type - Array type definition, elements must be built-in integer or float types
+ * @param offset - Offset of the array instance in bytes
+ * @param littleEndian - Byte order (default: big-endian)
+ * @returns TypedArray with a flag telling whether it shares memory with the DataView
+ * @throws {Error} If the elements have no TypedArray counterpart or the array has a variable length
+ * @throws {BoundsError} If the array exceeds the DataView
+ * @remarks
+ * - Memory is shared when the absolute offset is aligned to the element size and the byte order matches the platform
+ * - Otherwise the elements are copied, changes are written back by `flush()`
+ * - `FLOAT_16` arrays are copied into a `Float32Array` if the runtime lacks `Float16Array`
+ * @example
+ * const Vertices = defineArray(types.FLOAT_32, 300).freeze();
+ * const { array, shared } = asTypedArray(view, Vertices, 0x40, true);
+ * gl.bufferData(gl.ARRAY_BUFFER, array as Float32Array, gl.STATIC_DRAW);
+ */
+export function asTypedArray<T extends number | bigint>(view: DataView, type: ArrayDefinitionFreezed<T>, offset: number, littleEndian?: boolean): TypedArrayView<TypedArrayOf<T>> {
+    const element = type.element;
+    const accessor = getNativeAccessor(element);
+    if (!accessor) {
+        throw new Error(`[${type.name}] Element type ${element.name} has no TypedArray counterpart.`);
+    }
+    const length = type.lengthOf();
+    const size = element.size;
+    // Shared arrays must not reach past the window of the DataView
+    checkBounds(type, view, offset);
+    const TypedArray = getTypedArrayConstructor(accessor.method);
+    const byteOffset = view.byteOffset + offset;
+    if (TypedArray && byteOffset % size === 0 && (size === 1 || (littleEndian === true) === platformLittleEndian)) {
+        return {
+            array: new TypedArray(view.buffer, byteOffset, length),
+            shared: true,
+            flush: () => {}
+        };
+    }
+    const array = getArray(view, element, offset, length, littleEndian, { typed: true });
+    return {
+        array,
+        shared: false,
+        flush: () => setArray(view, element, offset, array as ArrayLike<any>, littleEndian)
+    };
+}
+
+/**
+ * Creates a reactive window over a range of array elements
+ * @param view - Source DataView, DataView getter or memory binding
+ * @param type - Array type definition
+ * @param offset - Offset of the array instance in bytes, or offset getter
+ * @param start - First index, negative values count from the end
+ * @param end - Index after the last element, negative values count from the end (default: length)
+ * @param littleEndian - Byte order (default: big-endian)
+ * @returns Reactive array of the selected elements, sharing memory with the DataView
+ * @example
+ * const sections = reactiveSlice(view, SectionTable, 0x178, 100, 200, true);
+ * sections[0].Name = ".text"; // Writes element 100
+ */
+export function reactiveSlice<T>(view: ViewSource, type: ArrayDefinitionFreezed<T>, offset: ValueOrGetter<number>, start: number, end?: number, littleEndian?: boolean): ReactiveArray<T> {
+    return (toReactive(view, type, offset, littleEndian) as ReactiveArray<T>).subarray(start, end);
+}
@@ -0,0 +1,274 @@
+import { TypeDefinitionSymbol, OperationRawSymbol, OperationSourceSymbol, toJSONValue, reactiveTarget, fieldDescriptor, joinPath, isPathTracked, validateInteger } from "./core";
+import { fromUnsigned } from "./native";
+import { writeTracked } from "./watch";
+import type { OperationGetter, OperationSetter, OperationReactive } from "./core";
+import type { TypeDefinition, OperationContext, ReactiveSource, Writable } from "./core";
+
+/**
+ * Bit range of a bitfield member
+ * @remarks `[offset, width, signed?]`, bit offset counted from the least significant bit
+ */
+export type BitfieldField = readonly [offset: number, width: number, signed?: boolean];
+
+/**
+ * Decoded bitfield members
+ * @template F - Member names mapped to bit ranges
+ * @remarks Unsigned 1-bit members are booleans, all other members are numbers
+ */
+export type BitfieldMembers<F extends Record<string, BitfieldField>> = {
+    -readonly [K in keyof F]: F[K] extends readonly [number, 1] | readonly [number, 1, false] ? boolean : number;
+};
+
+/**
+ * Value type of bitfield definitions
+ * @template F - Member names mapped to bit ranges
+ * @remarks Write operations accept a subset of the members, bits of missing members are kept
+ */
+export type BitfieldValue<F extends Record<string, BitfieldField>> = Writable<BitfieldMembers<F>, Partial<BitfieldMembers<F>>>;
+
+/**
+ * Immutable bitfield type definition (frozen state)
+ * @template F - Member names mapped to bit ranges
+ */
+export interface BitfieldDefinitionFreezed<F extends Record<string, BitfieldField>> extends TypeDefinition<BitfieldValue<F>> {
+    /** Integer type storing the bits */
+    base: TypeDefinition<number> | TypeDefinition<bigint>;
+    /** Member names mapped to bit ranges */
+    fields: Readonly<F>;
+    /** Array of member names */
+    keys: ReadonlyArray<keyof F>;
+    /**
+     * Creates a mutable clone
+     * @param name - Optional new name for cloned definition
+     * @returns Mutable bitfield definition
+     */
+    clone(name?: string): BitfieldDefinition<F>;
+}
+
+/**
+ * Mutable bitfield type definition with chainable configuration
+ * @template F - Member names mapped to bit ranges
+ */
+export interface BitfieldDefinition<F extends Record<string, BitfieldField>> extends BitfieldDefinitionFreezed<F> {
+    /**
+     * Sets type name
+     * @param name - New name for the type
+     * @returns Current instance for chaining
+     */
+    setName(name?: string): BitfieldDefinition<F>;
+    /**
+     * Sets the integer type storing the bits
+     * @param base - Integer type definition
+     * @returns Current instance for chaining
+     * @throws {Error} If a member does not fit into the integer
+     */
+    setBase(base: TypeDefinition<number> | TypeDefinition<bigint>): BitfieldDefinition<F>;
+    /**
+     * Freezes the type definition to prevent modification
+     * @returns Immutable version of the type definition
+     */
+    freeze(): BitfieldDefinitionFreezed<F>;
+}
+
+/**
+ * Creates configurable bitfield type definition
+ * @param base - Integer type storing the bits
+ * @param fields - Member names mapped to `[offset, width, signed?]` bit ranges
+ * @param name - Optional type name
+ * @returns Bitfield definition
+ * @template F - Member names mapped to bit ranges
+ * @remarks
+ * - Byte order follows `littleEndian` like the base integer type
+ * - Writes only change the bits of the written members (read-modify-write)
+ * @example
+ * const Access = defineBitfield(types.UINT_32, {
+ *     readable: [0, 1],
+ *     kind: [1, 3],
+ *     delta: [4, 4, true]
+ * }).freeze();
+ */
+export function defineBitfield<const F extends Record<string, BitfieldField>>(base: TypeDefinition<number> | TypeDefinition<bigint>, fields: F, name?: string): BitfieldDefinition<F> {
+    let _name: string | undefined;
+    let _base: TypeDefinition<any> = base;
+    const _keys: ReadonlyArray<keyof F & string> = Object.keys(fields);
+    const setName: BitfieldDefinition<F>["setName"] = (name) => {
+        _name = name;
+        return typeDefinition;
+    };
+    const setBase: BitfieldDefinition<F>["setBase"] = (base) => {
+        const bits = base.size * 8;
+        for (const key of _keys) {
+            const [offset, width] = fields[key];
+            if (!Number.isInteger(offset) || !Number.isInteger(width) || offset < 0 || width < 1 || offset + width > bits) {
+                throw new Error(`[${_name ?? `bitfield(${base.name})`}] Bit field '${key}' does not fit into ${bits} bits.`);
+            }
+        }
+        _base = base;
+        return typeDefinition;
+    };
+    const freeze: BitfieldDefinition<F>["freeze"] = () => {
+        const newDefinition = clone();
+        return Object.freeze({
+            isTypeDefinition: TypeDefinitionSymbol,
+            name: newDefinition.name,
+            size: newDefinition.size,
+            align: newDefinition.align,
+            base: newDefinition.base,
+            fields: newDefinition.fields,
+            keys: newDefinition.keys,
+            getter: newDefinition.getter,
+            setter: newDefinition.setter,
+            reactive: newDefinition.reactive,
+            clone: newDefinition.clone
+        });
+    };
+    const clone: BitfieldDefinition<F>["clone"] = (name) => defineBitfield<F>(_base, fields, name ?? _name);
+    // Bit operations on the unsigned form of the base integer
+    const readRaw = (context: OperationContext): bigint => {
+        return BigInt.asUintN(_base.size * 8, BigInt(_base.getter(context)));
+    };
+    const writeRaw = (context: OperationContext, raw: bigint, tracked?: boolean): void => {
+        const value = fromUnsigned(_base, raw);
+        if (tracked) {
+            writeTracked(_base, context, value);
+        }
+        else {
+            _base.setter(context, value);
+        }
+    };
+    const extract = (raw: bigint, key: keyof F): any => {
+        const [offset, width, signed] = fields[key];
+        const bits = (raw >> BigInt(offset)) & ((1n << BigInt(width)) - 1n);
+        if (signed) {
+            return Number(BigInt.asIntN(width, bits));
+        }
+        return width === 1 ? bits === 1n : Number(bits);
+    };
+    const insert = ({ safe, path }: OperationContext, raw: bigint, key: keyof F, value: number | boolean): bigint => {
+        const [offset, width, signed] = fields[key];
+        const mask = ((1n << BigInt(width)) - 1n) << BigInt(offset);
+        // Members are range checked by their own width
+        const member = typeof value === "boolean" ? Number(value) : validateInteger(
+            typeDefinition,
+            isPathTracked(safe) ? joinPath(path ?? typeDefinition.name, key as string) : void 0,
+            value,
+            signed ? -(2 ** (width - 1)) : 0,
+            signed ? 2 ** (width - 1) - 1 : 2 ** width - 1
+        );
+        const bits = BigInt.asUintN(width, BigInt(Math.trunc(member)));
+        return (raw & ~mask) | (bits << BigInt(offset));
+    };
+    const decode = (raw: bigint): BitfieldValue<F> => {
+        const value: Record<string, any> = {};
+        for (const key of _keys) {
+            value[key] = extract(raw, key);
+        }
+        return value as BitfieldValue<F>;
+    };
+    const getter: OperationGetter<BitfieldValue<F>> = (context) => decode(readRaw(context));
+    const setter: OperationSetter<BitfieldValue<F>> = (context, value: Partial<BitfieldMembers<F>>) => {
+        // Bits of missing members are kept
+        let raw = readRaw(context);
+        for (const key of _keys) {
+            const member = value[key];
+            if (member !== void 0) {
+                raw = insert(context, raw, key, member);
+            }
+        }
+        writeRaw(context, raw);
+    };
+    const reactive: OperationReactive<BitfieldValue<F>> = ({ view, littleEndian, safe, path, localOffset, baseOffset, cacheGetter }) => {
+        const context = (): OperationContext => ({
+            view: view(),
+            offset: baseOffset() + localOffset,
+            littleEndian,
+            safe,
+            path
+        });
+        const proxyToSource = (key?: string | symbol | number): ReactiveSource | undefined => {
+            if (key !== void 0) {
+                return void 0;
+            }
+            return {
+                view,
+                type: typeDefinition,
+                littleEndian,
+                path: path ?? typeDefinition.name,
+                offset: () => baseOffset() + localOffset
+            };
+        };
+        const proxyToRaw = () => typeDefinition.getter(context());
+        const internal = new Map<string | symbol, any>([
+            [OperationRawSymbol, proxyToRaw],
+            [OperationSourceSymbol, proxyToSource],
+            ["toJSON", () => toJSONValue(proxyToRaw())]
+        ]);
+        const get: ProxyHandler<BitfieldValue<F>>["get"] = (target, key) => {
+            if (typeof key === "string" && Object.hasOwn(fields, key)) {
+                return extract(readRaw(context()), key);
+            }
+            return internal.get(key);
+        };
+        // Read-modify-write of the affected bits
+        const set: ProxyHandler<BitfieldValue<F>>["set"] = (target, key, value) => {
+            if (typeof key !== "string" || !Object.hasOwn(fields, key)) {
+                return false;
+            }
+            const current = context();
+            writeRaw(current, insert(current, readRaw(current), key, value), true);
+            return true;
+        };
+        const has: ProxyHandler<BitfieldValue<F>>["has"] = (target, key) => {
+            return typeof key === "string" && Object.hasOwn(fields, key);
+        };
+        const ownKeys: ProxyHandler<BitfieldValue<F>>["ownKeys"] = () => {
+            return _keys as Array<string>;
+        };
+        const getOwnPropertyDescriptor: ProxyHandler<BitfieldValue<F>>["getOwnPropertyDescriptor"] = (target, key) => {
+            if (typeof key !== "string" || !Object.hasOwn(fields, key)) {
+                return void 0;
+            }
+            return fieldDescriptor(extract(readRaw(context()), key));
+        };
+        const defineProperty: ProxyHandler<BitfieldValue<F>>["defineProperty"] = () => false;
+        const deleteProperty: ProxyHandler<BitfieldValue<F>>["deleteProperty"] = () => false;
+        const proxy = new Proxy(reactiveTarget({} as BitfieldValue<F>, proxyToRaw), {
+            get,
+            set,
+            has,
+            ownKeys,
+            getOwnPropertyDescriptor,
+            defineProperty,
+            deleteProperty
+        });
+        cacheGetter(() => proxy);
+        return proxy;
+    };
+    const typeDefinition: BitfieldDefinition<F> = {
+        isTypeDefinition: TypeDefinitionSymbol,
+        get name() {
+            return _name ?? `bitfield(${_base.name})`;
+        },
+        get size() {
+            return _base.size;
+        },
+        get align() {
+            return _base.align;
+        },
+        get base() {
+            return _base;
+        },
+        fields,
+        keys: _keys,
+        getter,
+        setter,
+        reactive,
+        setName,
+        setBase,
+        freeze,
+        clone
+    };
+    setName(name);
+    setBase(base);
+    return typeDefinition;
+}
@@ -0,0 +1,201 @@
+import { TypeDefinitionSymbol, instanceSize } from "./core";
+import type { OperationGetter, OperationSetter, OperationReactive, OperationMeasure } from "./core";
+import type { TypeDefinition, Constant } from "./core";
+
+/** Unique symbol identifying constant definitions */
+export const ConstDefinitionSymbol = Symbol("CONST_TYPE_DEFINITION");
+
+/**
+ * Immutable constant type definition (frozen state)
+ * @template V - Constant value
+ */
+export interface ConstDefinitionFreezed<V> extends TypeDefinition<Constant<V>> {
+    /** Constant identification marker */
+    isConstDefinition: typeof ConstDefinitionSymbol;
+    /** Type storing the value */
+    base: TypeDefinition<any>;
+    /** Expected value, written by every write operation */
+    value: V;
+    /** Whether read operations throw on mismatching values */
+    validate: boolean;
+    /**
+     * Creates a mutable clone
+     * @param name - Optional new name for cloned definition
+     * @returns Mutable constant definition
+     */
+    clone(name?: string): ConstDefinition<V>;
+}
+
+/**
+ * Mutable constant type definition with chainable configuration
+ * @template V - Constant value
+ */
+export interface ConstDefinition<V> extends ConstDefinitionFreezed<V> {
+    /**
+     * Sets type name
+     * @param name - New name for the type
+     * @returns Current instance for chaining
+     */
+    setName(name?: string): ConstDefinition<V>;
+    /**
+     * Sets whether read operations validate the stored value
+     * @param validate - Throw on mismatch (default: true)
+     * @returns Current instance for chaining
+     */
+    setValidate(validate?: boolean): ConstDefinition<V>;
+    /**
+     * Freezes the type definition to prevent modification
+     * @returns Immutable version of the type definition
+     */
+    freeze(): ConstDefinitionFreezed<V>;
+}
+
+/** Compares decoded values, arrays and plain objects by their members */
+function isSameValue(a: any, b: any): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+        return false;
+    }
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) {
+        return false;
+    }
+    return keys.every(key => isSameValue(a[key], b[key]));
+}
+
+/** Formats a value for mismatch messages */
+function formatValue(value: any): string {
+    switch (typeof value) {
+        case "number":
+            return Number.isInteger(value) ? `${value} (0x${value.toString(16).toUpperCase()})` : String(value);
+        case "bigint":
+            return `${value}n`;
+        case "string":
+            return JSON.stringify(value);
+        default:
+            return JSON.stringify(value, (_, member) => typeof member === "bigint" ? `${member}n` : member) ?? String(value);
+    }
+}
+
+/**
+ * Creates constant (magic value) type definition
+ * @param base - Type storing the value
+ * @param value - Expected value
+ * @param name - Optional type name
+ * @returns Constant definition
+ * @template B - Value type of the base type
+ * @template V - Constant value
+ * @remarks
+ * - Read operations throw on mismatching values unless validation is disabled
+ * - Write operations ignore the given value and write the constant
+ * - Constant struct properties are omitted from write inputs (see {@link WriteValue})
+ * @example
+ * const IMAGE_DOS_HEADER = defineStruct()
+ *     .addProperty("e_magic", defineConst(types.WORD, 0x5a4d).freeze())
+ *     .addProperty("e_cblp", types.WORD)
+ *     .freeze();
+ * set(view, IMAGE_DOS_HEADER, 0, { e_cblp: 0x90 }, true); // e_magic is written automatically
+ */
+export function defineConst<B, const V extends B>(base: TypeDefinition<B>, value: V, name?: string): ConstDefinition<V> {
+    let _name: string | undefined;
+    let _validate: boolean = true;
+    const setName: ConstDefinition<V>["setName"] = (name) => {
+        _name = name;
+        return typeDefinition;
+    };
+    const setValidate: ConstDefinition<V>["setValidate"] = (validate) => {
+        _validate = validate ?? true;
+        return typeDefinition;
+    };
+    const freeze: ConstDefinition<V>["freeze"] = () => {
+        const newDefinition = clone();
+        return Object.freeze({
+            isTypeDefinition: TypeDefinitionSymbol,
+            isConstDefinition: ConstDefinitionSymbol,
+            name: newDefinition.name,
+            size: newDefinition.size,
+            align: newDefinition.align,
+            dynamic: newDefinition.dynamic,
+            base: newDefinition.base,
+            value: newDefinition.value,
+            validate: newDefinition.validate,
+            getter: newDefinition.getter,
+            setter: newDefinition.setter,
+            reactive: newDefinition.reactive,
+            measure: newDefinition.measure,
+            clone: newDefinition.clone
+        });
+    };
+    const clone: ConstDefinition<V>["clone"] = (name) => defineConst<B, V>(base, value, name ?? _name).setValidate(_validate);
+    const getter: OperationGetter<Constant<V>> = (context) => {
+        const stored = base.getter(context);
+        if (_validate && !isSameValue(stored, value)) {
+            throw new Error(`[${context.path ?? typeDefinition.name}] Constant mismatch: expected ${formatValue(value)}, got ${formatValue(stored)}.`);
+        }
+        return stored as Constant<V>;
+    };
+    const setter: OperationSetter<Constant<V>> = (context) => {
+        base.setter(context, value);
+    };
+    const reactive: OperationReactive<Constant<V>> = ({ view, littleEndian, safe, path, localOffset, baseOffset, cacheGetter }) => {
+        const getter = () => typeDefinition.getter({
+            view: view(),
+            offset: localOffset + baseOffset(),
+            littleEndian,
+            safe,
+            path
+        });
+        cacheGetter(getter);
+        return getter();
+    };
+    // Stored instances are expected to hold the constant as well
+    const measure: OperationMeasure<Constant<V>> = (context) => instanceSize(base, context, value);
+    const typeDefinition: ConstDefinition<V> = {
+        isTypeDefinition: TypeDefinitionSymbol,
+        isConstDefinition: ConstDefinitionSymbol,
+        get name() {
+            return _name ?? `const(${base.name})`;
+        },
+        get size() {
+            return base.size;
+        },
+        get align() {
+            return base.align;
+        },
+        get dynamic() {
+            return base.dynamic === true;
+        },
+        base,
+        value,
+        get validate() {
+            return _validate;
+        },
+        getter,
+        setter,
+        reactive,
+        measure,
+        setName,
+        setValidate,
+        freeze,
+        clone
+    };
+    setName(name);
+    return typeDefinition;
+}
+
+/**
+ * Type guard for constant definitions
+ * @param test - Value to check
+ * @returns Whether the value is a constant definition
+ */
+export function isConstDefinition(test: any): test is ConstDefinitionFreezed<any> {
+    if (typeof test !== "object" || test === null) {
+        return false;
+    }
+    if (test.isConstDefinition === ConstDefinitionSymbol) {
+        return true;
+    }
+    return false;
+}
@@ -0,0 +1,236 @@
+import { TypeDefinitionSymbol } from "./core";
+import type { OperationGetter, OperationSetter, OperationReactive } from "./core";
+import type { TypeDefinition, OperationContext } from "./core";
+
+/**
+ * Handling of stored values without a member name
+ * @remarks
+ * - `keep`: read as the raw number
+ * - `throw`: read throws an error
+ * - `fallback`: read as the fallback member name
+ */
+export type EnumUnknownPolicy = "keep" | "throw" | "fallback";
+
+/**
+ * Raw value type of enum members
+ * @template M - Member names mapped to raw values
+ */
+export type EnumRaw<M extends Record<string, number | bigint>> = M[keyof M] extends bigint ? bigint : number;
+
+/**
+ * Immutable enum type definition (frozen state)
+ * @template M - Member names mapped to raw values
+ * @template V - Value type, member names (plus raw values with the `keep` policy)
+ */
+export interface EnumDefinitionFreezed<M extends Record<string, number | bigint>, V = keyof M | EnumRaw<M>> extends TypeDefinition<V> {
+    /** Integer type storing the raw value */
+    base: TypeDefinition<number> | TypeDefinition<bigint>;
+    /** Member names mapped to raw values */
+    members: Readonly<M>;
+    /** Handling of unknown stored values */
+    unknown: EnumUnknownPolicy;
+    /** Member name read for unknown values (`fallback` policy) */
+    fallback: keyof M | undefined;
+    /**
+     * Looks up the member name of a raw value
+     * @param value - Raw value
+     * @returns Member name, `undefined` for unknown values
+     */
+    nameOf(value: number | bigint): keyof M | undefined;
+    /**
+     * Converts a member name or raw value to the raw value
+     * @param value - Member name or raw value
+     * @returns Raw value
+     * @throws {Error} If the name is not a member
+     */
+    valueOf(value: keyof M | number | bigint): M[keyof M];
+    /**
+     * Creates a mutable clone
+     * @param name - Optional new name for cloned definition
+     * @returns Mutable enum definition
+     */
+    clone(name?: string): EnumDefinition<M, V>;
+}
+
+/**
+ * Mutable enum type definition with chainable configuration
+ * @template M - Member names mapped to raw values
+ * @template V - Value type
+ */
+export interface EnumDefinition<M extends Record<string, number | bigint>, V = keyof M | EnumRaw<M>> extends EnumDefinitionFreezed<M, V> {
+    /**
+     * Sets type name
+     * @param name - New name for the type
+     * @returns Current instance for chaining
+     */
+    setName(name?: string): EnumDefinition<M, V>;
+    /**
+     * Sets the integer type storing the raw value
+     * @param base - Integer type definition
+     * @returns Current instance for chaining
+     */
+    setBase(base: TypeDefinition<number> | TypeDefinition<bigint>): EnumDefinition<M, V>;
+    /**
+     * Reads unknown values as raw numbers (default)
+     * @param policy - `keep`
+     * @returns Current enum definition with raw values in the value type
+     */
+    setUnknown(policy: "keep"): EnumDefinition<M, keyof M | EnumRaw<M>>;
+    /**
+     * Throws on unknown values
+     * @param policy - `throw`
+     * @returns Current enum definition with member names as value type
+     */
+    setUnknown(policy: "throw"): EnumDefinition<M, keyof M>;
+    /**
+     * Reads unknown values as a fallback member
+     * @param policy - `fallback`
+     * @param fallback - Member name read for unknown values
+     * @returns Current enum definition with member names as value type
+     */
+    setUnknown(policy: "fallback", fallback: keyof M): EnumDefinition<M, keyof M>;
+    /**
+     * Freezes the type definition to prevent modification
+     * @returns Immutable version of the type definition
+     */
+    freeze(): EnumDefinitionFreezed<M, V>;
+}
+
+/**
+ * Creates configurable enum type definition
+ * @param base - Integer type storing the raw value
+ * @param members - Member names mapped to raw values
+ * @param name - Optional type name
+ * @returns Enum definition, reading member names and accepting names or raw values on write
+ * @template M - Member names mapped to raw values
+ * @example
+ * const Machine = defineEnum(types.WORD, { I386: 0x14c, AMD64: 0x8664 }).freeze();
+ * get(view, Machine, 0x84, true); // "AMD64"
+ * set(view, Machine, 0x84, "I386", true);
+ */
+export function defineEnum<const M extends Record<string, number | bigint>>(base: TypeDefinition<number> | TypeDefinition<bigint>, members: M, name?: string): EnumDefinition<M> {
+    let _name: string | undefined;
+    let _base: TypeDefinition<any> = base;
+    let _unknown: EnumUnknownPolicy = "keep";
+    let _fallback: keyof M | undefined;
+    // Raw values are keyed by string to match numbers and bigints
+    const _names = new Map<string, keyof M>();
+    for (const key of Object.keys(members)) {
+        if (!_names.has(String(members[key]))) {
+            _names.set(String(members[key]), key);
+        }
+    }
+    const setName: EnumDefinition<M>["setName"] = (name) => {
+        _name = name;
+        return typeDefinition;
+    };
+    const setBase: EnumDefinition<M>["setBase"] = (base) => {
+        _base = base;
+        return typeDefinition;
+    };
+    const setUnknown = ((policy: EnumUnknownPolicy, fallback?: keyof M) => {
+        if (policy === "fallback" && (fallback === void 0 || !Object.hasOwn(members, fallback))) {
+            throw new Error(`[${typeDefinition.name}] Fallback must be a member name.`);
+        }
+        _unknown = policy;
+        _fallback = policy === "fallback" ? fallback : void 0;
+        return typeDefinition;
+    }) as EnumDefinition<M>["setUnknown"];
+    const freeze: EnumDefinition<M>["freeze"] = () => {
+        const newDefinition = clone();
+        return Object.freeze({
+            isTypeDefinition: TypeDefinitionSymbol,
+            name: newDefinition.name,
+            size: newDefinition.size,
+            align: newDefinition.align,
+            base: newDefinition.base,
+            members: newDefinition.members,
+            unknown: newDefinition.unknown,
+            fallback: newDefinition.fallback,
+            nameOf: newDefinition.nameOf,
+            valueOf: newDefinition.valueOf,
+            getter: newDefinition.getter,
+            setter: newDefinition.setter,
+            reactive: newDefinition.reactive,
+            clone: newDefinition.clone
+        });
+    };
+    const clone: EnumDefinition<M>["clone"] = (name) => {
+        const definition = defineEnum<M>(_base, members, name ?? _name);
+        return (_unknown === "fallback" ? definition.setUnknown(_unknown, _fallback!) : definition.setUnknown(_unknown as "keep")) as any;
+    };
+    const nameOf: EnumDefinition<M>["nameOf"] = (value) => _names.get(String(value));
+    const valueOf: EnumDefinition<M>["valueOf"] = (value) => {
+        if (typeof value === "number" || typeof value === "bigint") {
+            return value as M[keyof M];
+        }
+        if (!Object.hasOwn(members, value)) {
+            throw new Error(`[${typeDefinition.name}] Unknown enum member: ${String(value)}`);
+        }
+        return members[value];
+    };
+    const decodeValue = (context: OperationContext): any => {
+        const value: number | bigint = _base.getter(context);
+        const name = _names.get(String(value));
+        if (name !== void 0) {
+            return name;
+        }
+        switch (_unknown) {
+            case "throw":
+                throw new Error(`[${context.path ?? typeDefinition.name}] Unknown enum value: ${value}`);
+            case "fallback":
+                return _fallback;
+            default:
+                return value;
+        }
+    };
+    const getter: OperationGetter<any> = (context) => decodeValue(context);
+    const setter: OperationSetter<any> = (context, value) => {
+        _base.setter(context, valueOf(value));
+    };
+    const reactive: OperationReactive<any> = ({ view, littleEndian, safe, path, localOffset, baseOffset, cacheGetter }) => {
+        const getter = () => decodeValue({
+            view: view(),
+            offset: localOffset + baseOffset(),
+            littleEndian,
+            safe,
+            path
+        });
+        cacheGetter(getter);
+        return getter();
+    };
+    const typeDefinition: EnumDefinition<M> = {
+        isTypeDefinition: TypeDefinitionSymbol,
+        get name() {
+            return _name ?? `enum(${_base.name})`;
+        },
+        get size() {
+            return _base.size;
+        },
+        get align() {
+            return _base.align;
+        },
+        get base() {
+            return _base;
+        },
+        members,
+        get unknown() {
+            return _unknown;
+        },
+        get fallback() {
+            return _fallback;
+        },
+        nameOf,
+        valueOf,
+        getter,
+        setter,
+        reactive,
+        setName,
+        setBase,
+        setUnknown,
+        freeze,
+        clone
+    };
+    setName(name);
+    return typeDefinition;
+}
@@ -0,0 +1,337 @@
+import { TypeDefinitionSymbol, OperationRawSymbol, OperationSourceSymbol } from "./core";
+import { getNativeAccessor, fromUnsigned } from "./native";
+import { writeTracked } from "./watch";
+import type { OperationGetter, OperationSetter, OperationReactive } from "./core";
+import type { TypeDefinition, OperationContext, ReactiveSource, Writable } from "./core";
+
+/**
+ * Set of named flags over an integer
+ * @template K - Flag names
+ * @remarks
+ * - Bits without a flag name are preserved in {@link FlagSet.value}
+ * - Reactive instances read and write the underlying integer on every call
+ */
+export class FlagSet<K extends string> implements Iterable<K> {
+    private readonly _masks: ReadonlyMap<K, bigint>;
+    private readonly _read: () => bigint;
+    private readonly _write: (raw: bigint) => void;
+    private readonly _bigint: boolean;
+    private readonly _name: string;
+    /**
+     * Creates a flag set
+     * @param masks - Flag names mapped to bit masks
+     * @param read - Reads the raw integer
+     * @param write - Writes the raw integer
+     * @param bigint - Whether {@link FlagSet.value} is a bigint
+     * @param name - Type name or field path for error reporting (default: `FlagSet`)
+     */
+    public constructor(masks: ReadonlyMap<K, bigint>, read: () => bigint, write: (raw: bigint) => void, bigint?: boolean, name?: string) {
+        this._masks = masks;
+        this._read = read;
+        this._write = write;
+        this._bigint = bigint ?? false;
+        this._name = name ?? "FlagSet";
+    }
+    /** Raw integer including unknown bits */
+    public get value(): number | bigint {
+        const raw = this._read();
+        return this._bigint ? raw : Number(raw);
+    }
+    public set value(value: number | bigint) {
+        this._write(BigInt(value));
+    }
+    /** Bits not covered by any flag */
+    public get unknown(): number | bigint {
+        let raw = this._read();
+        for (const mask of this._masks.values()) {
+            raw &= ~mask;
+        }
+        return this._bigint ? raw : Number(raw);
+    }
+    /** Number of set flags */
+    public get size(): number {
+        let size = 0;
+        for (const _ of this) {
+            size++;
+        }
+        return size;
+    }
+    /**
+     * Checks whether a flag is set
+     * @param name - Flag name
+     * @returns Whether all bits of the flag are set
+     */
+    public has(name: K): boolean {
+        const mask = this._masks.get(name);
+        return mask !== void 0 && mask !== 0n && (this._read() & mask) === mask;
+    }
+    /**
+     * Sets a flag
+     * @param name - Flag name
+     * @returns Current instance for chaining
+     */
+    public add(name: K): this {
+        this._write(this._read() | this.maskOf(name));
+        return this;
+    }
+    /**
+     * Clears a flag
+     * @param name - Flag name
+     * @returns Whether the flag was set
+     */
+    public delete(name: K): boolean {
+        const had = this.has(name);
+        this._write(this._read() & ~this.maskOf(name));
+        return had;
+    }
+    /** Clears all named flags, unknown bits are kept */
+    public clear(): void {
+        let raw = this._read();
+        for (const mask of this._masks.values()) {
+            raw &= ~mask;
+        }
+        this._write(raw);
+    }
+    /**
+     * Calls a function for each set flag
+     * @param callback - Function receiving the flag name
+     * @param thisArg - `this` of the callback
+     */
+    public forEach(callback: (name: K, key: K, set: FlagSet<K>) => void, thisArg?: any): void {
+        for (const name of this) {
+            callback.call(thisArg, name, name, this);
+        }
+    }
+    /** Iterates names of set flags in declaration order */
+    public *[Symbol.iterator](): IterableIterator<K> {
+        const raw = this._read();
+        for (const [name, mask] of this._masks) {
+            if (mask !== 0n && (raw & mask) === mask) {
+                yield name;
+            }
+        }
+    }
+    /** Iterates names of set flags */
+    public keys(): IterableIterator<K> {
+        return this[Symbol.iterator]();
+    }
+    /** Iterates names of set flags */
+    public values(): IterableIterator<K> {
+        return this[Symbol.iterator]();
+    }
+    /** Names of set flags */
+    public toJSON(): Array<K> {
+        return [...this];
+    }
+    private maskOf(name: K): bigint {
+        const mask = this._masks.get(name);
+        if (mask === void 0) {
+            throw new Error(`[${this._name}] Unknown flag: ${name}`);
+        }
+        return mask;
+    }
+}
+
+/**
+ * Value type of flags definitions
+ * @template K - Flag names
+ * @remarks Write operations accept iterables of flag names and raw integers as well
+ */
+export type FlagsValue<K extends string> = Writable<FlagSet<K>, Iterable<K> | number | bigint>;
+
+/**
+ * Immutable flags type definition (frozen state)
+ * @template M - Flag names mapped to bit masks
+ */
+export interface FlagsDefinitionFreezed<M extends Record<string, number | bigint>> extends TypeDefinition<FlagsValue<keyof M & string>> {
+    /** Integer type storing the flags */
+    base: TypeDefinition<number> | TypeDefinition<bigint>;
+    /** Flag names mapped to bit masks */
+    flags: Readonly<M>;
+    /**
+     * Creates a detached flag set
+     * @param value - Flag names or raw integer (default: 0)
+     * @returns Flag set, e.g. for writing
+     * @example
+     * set(view, Characteristics, 0x96, Characteristics.create(["DLL"]), true);
+     */
+    create(value?: Iterable<keyof M & string> | number | bigint): FlagSet<keyof M & string>;
+    /**
+     * Creates a mutable clone
+     * @param name - Optional new name for cloned definition
+     * @returns Mutable flags definition
+     */
+    clone(name?: string): FlagsDefinition<M>;
+}
+
+/**
+ * Mutable flags type definition with chainable configuration
+ * @template M - Flag names mapped to bit masks
+ */
+export interface FlagsDefinition<M extends Record<string, number | bigint>> extends FlagsDefinitionFreezed<M> {
+    /**
+     * Sets type name
+     * @param name - New name for the type
+     * @returns Current instance for chaining
+     */
+    setName(name?: string): FlagsDefinition<M>;
+    /**
+     * Sets the integer type storing the flags
+     * @param base - Integer type definition
+     * @returns Current instance for chaining
+     */
+    setBase(base: TypeDefinition<number> | TypeDefinition<bigint>): FlagsDefinition<M>;
+    /**
+     * Freezes the type definition to prevent modification
+     * @returns Immutable version of the type definition
+     */
+    freeze(): FlagsDefinitionFreezed<M>;
+}
+
+/**
+ * Creates configurable flags type definition
+ * @param base - Integer type storing the flags
+ * @param flags - Flag names mapped to bit masks
+ * @param name - Optional type name
+ * @returns Flags definition reading as {@link FlagSet}
+ * @template M - Flag names mapped to bit masks
+ * @remarks
+ * - Setter accepts flag sets, iterables of flag names or raw integers
+ * - Writing flag names keeps the unknown bits already stored
+ * @example
+ * const Characteristics = defineFlags(types.WORD, { EXECUTABLE_IMAGE: 0x0002, DLL: 0x2000 }).freeze();
+ * const header = reactive(view, IMAGE_FILE_HEADER, 0x84, true);
+ * header.Characteristics.add("DLL"); // Written immediately
+ */
+export function defineFlags<const M extends Record<string, number | bigint>>(base: TypeDefinition<number> | TypeDefinition<bigint>, flags: M, name?: string): FlagsDefinition<M> {
+    type K = keyof M & string;
+    let _name: string | undefined;
+    let _base: TypeDefinition<any> = base;
+    const _masks: ReadonlyMap<K, bigint> = new Map(Object.keys(flags).map(key => [key as K, BigInt(flags[key])]));
+    let _known = 0n;
+    for (const mask of _masks.values()) {
+        _known |= mask;
+    }
+    const setName: FlagsDefinition<M>["setName"] = (name) => {
+        _name = name;
+        return typeDefinition;
+    };
+    const setBase: FlagsDefinition<M>["setBase"] = (base) => {
+        _base = base;
+        return typeDefinition;
+    };
+    const freeze: FlagsDefinition<M>["freeze"] = () => {
+        const newDefinition = clone();
+        return Object.freeze({
+            isTypeDefinition: TypeDefinitionSymbol,
+            name: newDefinition.name,
+            size: newDefinition.size,
+            align: newDefinition.align,
+            base: newDefinition.base,
+            flags: newDefinition.flags,
+            create: newDefinition.create,
+            getter: newDefinition.getter,
+            setter: newDefinition.setter,
+            reactive: newDefinition.reactive,
+            clone: newDefinition.clone
+        });
+    };
+    const clone: FlagsDefinition<M>["clone"] = (name) => defineFlags<M>(_base, flags, name ?? _name);
+    // Raw integer access
+    const isBigInt = () => getNativeAccessor(_base)?.method.startsWith("Big") === true;
+    const readRaw = (context: OperationContext): bigint => {
+        return BigInt.asUintN(_base.size * 8, BigInt(_base.getter(context)));
+    };
+    const fromNames = (names: Iterable<K>, raw: bigint): bigint => {
+        raw &= ~_known;
+        for (const name of names) {
+            const mask = _masks.get(name);
+            if (mask === void 0) {
+                throw new Error(`[${typeDefinition.name}] Unknown flag: ${name}`);
+            }
+            raw |= mask;
+        }
+        return raw;
+    };
+    const detached = (raw: bigint, path?: string): FlagSet<K> => {
+        const bits = _base.size * 8;
+        return new FlagSet<K>(_masks, () => raw, (value) => raw = BigInt.asUintN(bits, value), isBigInt(), path ?? typeDefinition.name);
+    };
+    const create: FlagsDefinition<M>["create"] = (value) => {
+        if (typeof value === "number" || typeof value === "bigint") {
+            return detached(BigInt.asUintN(_base.size * 8, BigInt(value)));
+        }
+        return detached(fromNames(value ?? [], 0n));
+    };
+    /** Resolves the raw integer to write, `current` provides the stored bits */
+    const toRaw = (value: FlagSet<K> | Iterable<K> | number | bigint, current: () => bigint): bigint => {
+        if (value instanceof FlagSet) {
+            return BigInt(value.value);
+        }
+        if (typeof value === "number" || typeof value === "bigint") {
+            return BigInt(value);
+        }
+        return fromNames(value, current());
+    };
+    const getter: OperationGetter<FlagsValue<K>> = (context) => detached(readRaw(context), context.path);
+    const setter: OperationSetter<FlagsValue<K>> = (context, value: FlagSet<K> | Iterable<K> | number | bigint) => {
+        _base.setter(context, fromUnsigned(_base, BigInt.asUintN(_base.size * 8, toRaw(value, () => readRaw(context)))));
+    };
+    const reactive: OperationReactive<FlagsValue<K>> = ({ view, littleEndian, safe, path, localOffset, baseOffset, cacheGetter }) => {
+        const context = (): OperationContext => ({
+            view: view(),
+            offset: baseOffset() + localOffset,
+            littleEndian,
+            safe,
+            path
+        });
+        const write = (raw: bigint) => {
+            writeTracked(_base, context(), fromUnsigned(_base, BigInt.asUintN(_base.size * 8, raw)));
+        };
+        const flagSet = new FlagSet<K>(_masks, () => readRaw(context()), write, isBigInt(), path ?? typeDefinition.name);
+        const proxyToSource = (key?: string | symbol | number): ReactiveSource | undefined => {
+            if (key !== void 0) {
+                return void 0;
+            }
+            return {
+                view,
+                type: typeDefinition,
+                littleEndian,
+                path: path ?? typeDefinition.name,
+                offset: () => baseOffset() + localOffset
+            };
+        };
+        Object.defineProperties(flagSet, {
+            [OperationRawSymbol]: { value: () => typeDefinition.getter(context()) },
+            [OperationSourceSymbol]: { value: proxyToSource }
+        });
+        cacheGetter(() => flagSet);
+        return flagSet;
+    };
+    const typeDefinition: FlagsDefinition<M> = {
+        isTypeDefinition: TypeDefinitionSymbol,
+        get name() {
+            return _name ?? `flags(${_base.name})`;
+        },
+        get size() {
+            return _base.size;
+        },
+        get align() {
+            return _base.align;
+        },
+        get base() {
+            return _base;
+        },
+        flags,
+        create,
+        getter,
+        setter,
+        reactive,
+        setName,
+        setBase,
+        freeze,
+        clone
+    };
+    setName(name);
+    return typeDefinition;
+}
@@ -0,0 +1,360 @@
+import { TypeDefinitionSymbol, OperationRawSymbol, OperationSourceSymbol, reactive as toReactive, joinPath, isPathTracked } from "./core";
+import { UINT_32 } from "./types";
+import { getNativeAccessor } from "./native";
+import { writeTracked } from "./watch";
+import type { OperationGetter, OperationSetter, OperationReactive } from "./core";
+import type { TypeDefinition, ValueOrGetter, ReactiveSource, OperationContext, Writable } from "./core";
+
+/**
+ * Decoded pointer
+ * @template T - Pointee type
+ * @remarks Pointers serialize to JSON as `{ address, isNull }`, pointees are not followed
+ */
+export interface Pointer<T> {
+    /** Address stored in the pointer field */
+    address: number;
+    /** Whether the address is null (0) */
+    readonly isNull: boolean;
+    /**
+     * Reactive pointee
+     * @remarks
+     * - `null` for null pointers
+     * - In reactive mode the pointee follows address changes through the live view
+     */
+    value: T | null;
+    /**
+     * Reads the pointee as a plain value
+     * @throws {Error} On null pointers
+     */
+    deref(): T;
+}
+
+/**
+ * Value type of pointer definitions
+ * @template T - Pointee type
+ * @remarks Write operations accept plain addresses as well
+ */
+export type PointerValue<T> = Writable<Pointer<T>, number | bigint>;
+
+/** Configuration options of pointer definitions */
+export interface PointerOptions {
+    /** Integer type storing the address (default: `UINT_32`) */
+    addressType?: TypeDefinition<number> | TypeDefinition<bigint>;
+    /**
+     * Address corresponding to byte offset 0 of the DataView (default: 0)
+     * @remarks Pointee offset is `address - base`, e.g. the image base of a mapped file
+     */
+    base?: ValueOrGetter<number>;
+}
+
+/**
+ * Immutable pointer type definition (frozen state)
+ * @template T - Pointee type
+ */
+export interface PointerDefinitionFreezed<T> extends TypeDefinition<PointerValue<T>> {
+    /** Pointee type definition */
+    target: TypeDefinition<T>;
+    /** Integer type storing the address */
+    addressType: TypeDefinition<number> | TypeDefinition<bigint>;
+    /** Address corresponding to byte offset 0 of the DataView */
+    base: number;
+    /**
+     * Creates a mutable clone
+     * @param name - Optional new name for cloned definition
+     * @returns Mutable pointer definition
+     */
+    clone(name?: string): PointerDefinition<T>;
+}
+
+/**
+ * Mutable pointer type definition with chainable configuration
+ * @template T - Pointee type
+ */
+export interface PointerDefinition<T> extends PointerDefinitionFreezed<T> {
+    /**
+     * Sets type name
+     * @param name - New name for the type
+     * @returns Current instance for chaining
+     */
+    setName(name?: string): PointerDefinition<T>;
+    /**
+     * Changes pointee type
+     * @template M - New pointee type
+     * @param target - Pointee type definition or getter (for recursive types)
+     * @returns Current pointer definition with updated pointee type
+     */
+    setTarget<M>(target: ValueOrGetter<TypeDefinition<M>>): PointerDefinition<M>;
+    /**
+     * Sets the integer type storing the address
+     * @param addressType - Address type (default: `UINT_32`)
+     * @returns Current instance for chaining
+     */
+    setAddressType(addressType?: TypeDefinition<number> | TypeDefinition<bigint>): PointerDefinition<T>;
+    /**
+     * Sets the address corresponding to byte offset 0 of the DataView
+     * @param base - Base address or getter (default: 0)
+     * @returns Current instance for chaining
+     */
+    setBase(base?: ValueOrGetter<number>): PointerDefinition<T>;
+    /**
+     * Freezes the type definition to prevent modification
+     * @returns Immutable version of the type definition
+     */
+    freeze(): PointerDefinitionFreezed<T>;
+}
+
+/**
+ * Creates configurable pointer type definition
+ * @param target - Pointee type definition or getter (for recursive types)
+ * @param options - Address type and base address
+ * @param name - Optional type name
+ * @returns Pointer definition
+ * @template T - Pointee type
+ * @example
+ * const Node = defineStruct()
+ *     .addProperty("value", types.INT_32)
+ *     .addProperty("next", definePointer<any>(() => Node).freeze())
+ *     .freeze();
+ * const head = reactive(memory, Node, headAddress, true);
+ * if (!head.next.isNull) {
+ *     console.log(head.next.value.value);
+ * }
+ */
+export function definePointer<T>(target: ValueOrGetter<TypeDefinition<T>>, options?: PointerOptions, name?: string): PointerDefinition<T> {
+    let _name: string | undefined;
+    let _target: ValueOrGetter<TypeDefinition<any>> = target;
+    let _addressType: TypeDefinition<any> = UINT_32;
+    let _base: ValueOrGetter<number> = 0;
+    const setName: PointerDefinition<T>["setName"] = (name) => {
+        _name = name;
+        return typeDefinition;
+    };
+    const setTarget: PointerDefinition<T>["setTarget"] = (target) => {
+        _target = target;
+        return typeDefinition as any;
+    };
+    const setAddressType: PointerDefinition<T>["setAddressType"] = (addressType) => {
+        _addressType = addressType ?? UINT_32;
+        return typeDefinition;
+    };
+    const setBase: PointerDefinition<T>["setBase"] = (base) => {
+        _base = base ?? 0;
+        return typeDefinition;
+    };
+    const freeze: PointerDefinition<T>["freeze"] = () => {
+        const newDefinition = clone();
+        return Object.freeze({
+            isTypeDefinition: TypeDefinitionSymbol,
+            get name() {
+                return newDefinition.name;
+            },
+            size: newDefinition.size,
+            align: newDefinition.align,
+            get target() {
+                return newDefinition.target;
+            },
+            addressType: newDefinition.addressType,
+            get base() {
+                return newDefinition.base;
+            },
+            getter: newDefinition.getter,
+            setter: newDefinition.setter,
+            reactive: newDefinition.reactive,
+            clone: newDefinition.clone
+        });
+    };
+    const clone: PointerDefinition<T>["clone"] = (name) => definePointer<T>(_target, {
+        addressType: _addressType,
+        base: _base
+    }, name ?? _name);
+    // Address conversion
+    const getTarget = (): TypeDefinition<T> => typeof _target === "function" ? _target() : _target;
+    const getBase = (): number => typeof _base === "function" ? _base() : _base;
+    const toAddress = (value: number | bigint): number => Number(value);
+    // Custom address types reveal their form through the stored value
+    const fromAddress = (address: number | bigint, context: OperationContext): any => {
+        const method = getNativeAccessor(_addressType)?.method;
+        const bigint = method ? method.startsWith("Big") : typeof _addressType.getter(context) === "bigint";
+        return bigint ? BigInt(address) : Number(address);
+    };
+    const nullError = () => new Error(`[${typeDefinition.name}] Null pointer dereference.`);
+    const getter: OperationGetter<PointerValue<T>> = ({ view, offset, littleEndian, safe, path }) => {
+        const address = toAddress(_addressType.getter({ view, offset, littleEndian, safe, path }));
+        const targetOffset = address - getBase();
+        const target = getTarget();
+        let proxy: T | undefined;
+        return <PointerValue<T>>{
+            address,
+            isNull: address === 0,
+            get value() {
+                if (address === 0) {
+                    return null;
+                }
+                return proxy ??= toReactive(view, target, targetOffset, littleEndian);
+            },
+            deref() {
+                if (address === 0) {
+                    throw nullError();
+                }
+                return target.getter({
+                    view,
+                    offset: targetOffset,
+                    littleEndian,
+                    safe,
+                    path: isPathTracked(safe) ? joinPath(path, "value") : void 0
+                });
+            },
+            toJSON() {
+                return { address, isNull: address === 0 };
+            }
+        };
+    };
+    const setter: OperationSetter<PointerValue<T>> = (context, value: Pointer<T> | number | bigint) => {
+        // Plain addresses are accepted as well
+        const address = typeof value === "object" && value !== null ? value.address : value;
+        _addressType.setter(context, fromAddress(address, context));
+    };
+    const reactive: OperationReactive<PointerValue<T>> = ({ view, littleEndian, safe, path, localOffset, baseOffset, cacheGetter }) => {
+        const target = getTarget();
+        const targetPath = joinPath(path, "value");
+        const readAddress = () => toAddress(_addressType.getter({
+            view: view(),
+            offset: baseOffset() + localOffset,
+            littleEndian,
+            safe,
+            path
+        }));
+        // Pointee offset follows the live address
+        const targetOffset = () => readAddress() - getBase();
+        const proxyToSource = (key?: string | symbol | number): ReactiveSource | undefined => {
+            if (key === void 0 || key === "address") {
+                return {
+                    view,
+                    type: _addressType,
+                    littleEndian,
+                    path: path ?? typeDefinition.name,
+                    offset: () => baseOffset() + localOffset
+                };
+            }
+            if (key === "value") {
+                return {
+                    view,
+                    type: target,
+                    littleEndian,
+                    path: targetPath,
+                    offset: targetOffset
+                };
+            }
+            return void 0;
+        };
+        let cachedGetter: (() => any) | undefined;
+        const pointer = {
+            [OperationRawSymbol]: () => typeDefinition.getter({
+                view: view(),
+                offset: baseOffset() + localOffset,
+                littleEndian,
+                safe,
+                path
+            }),
+            [OperationSourceSymbol]: proxyToSource,
+            get address() {
+                return readAddress();
+            },
+            set address(address: number) {
+                const context: OperationContext = {
+                    view: view(),
+                    offset: baseOffset() + localOffset,
+                    littleEndian,
+                    safe,
+                    path
+                };
+                writeTracked(_addressType, context, fromAddress(address, context));
+            },
+            get isNull() {
+                return readAddress() === 0;
+            },
+            get value(): T | null {
+                if (readAddress() === 0) {
+                    return null;
+                }
+                if (cachedGetter) {
+                    return cachedGetter();
+                }
+                return target.reactive({
+                    view,
+                    littleEndian,
+                    safe,
+                    path: targetPath,
+                    localOffset: 0,
+                    baseOffset: targetOffset,
+                    cacheGetter: (getter) => cachedGetter = getter
+                });
+            },
+            set value(value: T | null) {
+                if (readAddress() === 0) {
+                    throw nullError();
+                }
+                writeTracked(target, {
+                    view: view(),
+                    offset: targetOffset(),
+                    littleEndian,
+                    safe,
+                    path: targetPath
+                }, value as T);
+            },
+            deref() {
+                if (readAddress() === 0) {
+                    throw nullError();
+                }
+                return target.getter({
+                    view: view(),
+                    offset: targetOffset(),
+                    littleEndian,
+                    safe,
+                    path: targetPath
+                });
+            },
+            // Self-referential pointees would recurse endlessly
+            toJSON() {
+                const address = readAddress();
+                return { address, isNull: address === 0 };
+            }
+        };
+        cacheGetter(() => pointer);
+        return pointer as Pointer<T> as PointerValue<T>;
+    };
+    const typeDefinition: PointerDefinition<T> = {
+        isTypeDefinition: TypeDefinitionSymbol,
+        get name() {
+            return _name ?? `${getTarget().name}*`;
+        },
+        get size() {
+            return _addressType.size;
+        },
+        get align() {
+            return _addressType.align;
+        },
+        get target() {
+            return getTarget();
+        },
+        get addressType() {
+            return _addressType;
+        },
+        get base() {
+            return getBase();
+        },
+        getter,
+        setter,
+        reactive,
+        setName,
+        setTarget,
+        setAddressType,
+        setBase,
+        freeze,
+        clone
+    };
+    setAddressType(options?.addressType);
+    setBase(options?.base);
+    setName(name);
+    return typeDefinition;
+}
@@ -1,5 +1,5 @@
-import { TypeDefinitionSymbol } from "./core";
-import type { TypeDefinition, OperationGetter, OperationSetter, OperationReactive } from "./core";
+import { TypeDefinitionSymbol, checkBounds } from "./core";
+import type { TypeDefinition, OperationGetter, OperationSetter, OperationReactive, OperationMeasure } from "./core";
 
 /**
  * Immutable primitive type definition (frozen state)
@@ -70,6 +70,15 @@ export interface PrimitiveDefinition<T> extends PrimitiveDefinitionFreezed<T> {
      * .setReactive(ctx => createReactiveProxy(...))
      */
     setReactive(reactive?: OperationReactive<T>): PrimitiveDefinition<T>;
+    /**
+     * Sets the instance size implementation
+     * @param measure - Measure function, makes the type dynamic (default: static `size`)
+     * @returns Current instance for chaining
+     * @remarks `size` becomes the minimum size used by static layouts
+     * @example 
+     * .setMeasure(ctx => 1 + ctx.view.getUint8(ctx.offset))
+     */
+    setMeasure(measure?: OperationMeasure<T>): PrimitiveDefinition<T>;
     /**
      * Freezes the type definition to prevent modification
      * @returns Immutable version of the type definition
@@ -104,6 +113,7 @@ export function definePrimitive<T>(name?: string): PrimitiveDefinition<T> {
     let _getter: OperationGetter<T> | undefined;
     let _setter: OperationSetter<T> | undefined;
     let _reactive: OperationReactive<T> | undefined;
+    let _measure: OperationMeasure<T> | undefined;
     const setName: PrimitiveDefinition<T>["setName"] = (name) => {
         _name = name;
         return typeDefinition;
@@ -128,6 +138,10 @@ export function definePrimitive<T>(name?: string): PrimitiveDefinition<T> {
         _reactive = reactive;
         return typeDefinition;
     };
+    const setMeasure: PrimitiveDefinition<T>["setMeasure"] = (measure) => {
+        _measure = measure;
+        return typeDefinition;
+    };
     const freeze: PrimitiveDefinition<T>["freeze"] = () => {
         const newDefinition = clone();
         return Object.freeze({
@@ -135,9 +149,11 @@ export function definePrimitive<T>(name?: string): PrimitiveDefinition<T> {
             name: newDefinition.name,
             size: newDefinition.size,
             align: newDefinition.align,
+            dynamic: newDefinition.dynamic,
             getter: newDefinition.getter,
             setter: newDefinition.setter,
             reactive: newDefinition.reactive,
+            measure: newDefinition.measure,
             clone: newDefinition.clone
         });
     };
@@ -146,7 +162,8 @@ export function definePrimitive<T>(name?: string): PrimitiveDefinition<T> {
         .setAlign(_align)
         .setGetter(_getter)
         .setSetter(_setter)
-        .setReactive(_reactive);
+        .setReactive(_reactive)
+        .setMeasure(_measure);
     // Default operations (throw if not configured)
     const getter: OperationGetter<T> = () => {
         throw new Error(`Getter not implemented for type '${_name || "unknown"}'`);
@@ -157,13 +174,41 @@ export function definePrimitive<T>(name?: string): PrimitiveDefinition<T> {
     // Default reactive implementation
     const reactive: OperationReactive<T> = ({ view, littleEndian, localOffset, baseOffset, cacheGetter }) => {
         const getter = () => typeDefinition.getter({
-            view,
+            view: view(),
             offset: localOffset + baseOffset(),
             littleEndian,
         });
         cacheGetter(getter);
         return getter()
     };
+    // Bounds checked wrappers (safe mode)
+    const safeGetter: OperationGetter<T> = function (context) {
+        if (context.safe) {
+            checkBounds(typeDefinition, context.view, context.offset, context.path);
+        }
+        return (_getter ?? getter).call(this, context);
+    };
+    const safeSetter: OperationSetter<T> = function (context, value) {
+        if (context.safe) {
+            checkBounds(typeDefinition, context.view, context.offset, context.path);
+        }
+        return (_setter ?? setter).call(this, context, value);
+    };
+    const safeReactive: OperationReactive<T> = function (context) {
+        if (!context.safe) {
+            return (_reactive ?? reactive).call(this, context);
+        }
+        const { view, localOffset, baseOffset, path, cacheGetter } = context;
+        const check = () => checkBounds(typeDefinition, view(), localOffset + baseOffset(), path);
+        check();
+        return (_reactive ?? reactive).call(this, {
+            ...context,
+            cacheGetter: (getter) => cacheGetter(() => {
+                check();
+                return getter();
+            })
+        });
+    };
     // Main definition object with getters
     const typeDefinition: PrimitiveDefinition<T> = {
         isTypeDefinition: TypeDefinitionSymbol,
@@ -176,14 +221,20 @@ export function definePrimitive<T>(name?: string): PrimitiveDefinition<T> {
         get align() {
             return Math.max(_align ?? _size ?? 1, 1);
         },
+        get dynamic() {
+            return _measure !== void 0;
+        },
         get getter() {
-            return _getter ?? getter;
+            return safeGetter;
         },
         get setter() {
-            return _setter ?? setter;
+            return safeSetter;
         },
         get reactive() {
-            return _reactive ?? reactive;
+            return safeReactive;
+        },
+        get measure() {
+            return _measure;
         },
         setName,
         setSize,
@@ -191,6 +242,7 @@ export function definePrimitive<T>(name?: string): PrimitiveDefinition<T> {
         setGetter,
         setSetter,
         setReactive,
+        setMeasure,
         freeze,
         clone
     };
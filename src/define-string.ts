@@ -1,6 +1,7 @@
-import { TypeDefinitionSymbol } from "./core";
-import type { OperationGetter, OperationSetter, OperationReactive } from "./core";
-import type { TypeDefinition } from "./core";
+import { TypeDefinitionSymbol, BoundsError, checkBounds, instanceSize, validateLength } from "./core";
+import { getNativeAccessor, getIntegerMax } from "./native";
+import type { OperationGetter, OperationSetter, OperationReactive, OperationMeasure } from "./core";
+import type { TypeDefinition, OperationContext } from "./core";
 
 /** Defines encoding/decoding operations for string data */
 export interface StringCoder {
@@ -32,6 +33,21 @@ export interface StringDefinitionFreezed extends TypeDefinition<string> {
     filler: number | undefined;
     /** Encoding/decoding implementation */
     coder: StringCoder;
+    /**
+     * Integer type of the length prefix
+     * @remarks Set for length-prefixed (Pascal) strings, `undefined` otherwise
+     */
+    prefix: TypeDefinition<number> | TypeDefinition<bigint> | undefined;
+    /** Whether the string is NUL-terminated with unknown length (C string) */
+    terminated: boolean;
+    /**
+     * Maximum encoded byte length of variable-length strings
+     * @remarks
+     * - Length-prefixed: maximum content length, longer values are truncated
+     * - NUL-terminated: maximum length including the terminator, reading stops there
+     * - `undefined`: bounded by the DataView only
+     */
+    maxSize: number | undefined;
     /**
      * Creates a mutable clone
      * @param name - Optional new name for cloned definition
@@ -87,6 +103,29 @@ export interface StringDefinition extends StringDefinitionFreezed {
      * @defaultValue UTF-8 encoder
      */
     setCoder(coder?: StringCoder): StringDefinition;
+    /**
+     * Switches to a length-prefixed (Pascal) string
+     * @param prefix - Integer type of the length prefix, e.g. `UINT_8`, `UINT_32` or `ULEB128`
+     * @returns Current instance for chaining
+     * @remarks
+     * - `size` reports the prefix size, the instance size is prefix plus content
+     * - Content longer than the prefix type can count is truncated, or rejected by the `throw` validation policy
+     * - Set to `undefined` to return to fixed-size mode
+     */
+    setPrefix(prefix?: TypeDefinition<number> | TypeDefinition<bigint>): StringDefinition;
+    /**
+     * Switches to a NUL-terminated string of unknown length (C string)
+     * @param terminated - Whether to read up to the first NUL (default: true)
+     * @returns Current instance for chaining
+     * @remarks `size` reports 1 (the terminator), the instance size is content plus terminator
+     */
+    setTerminated(terminated?: boolean): StringDefinition;
+    /**
+     * Sets the maximum encoded byte length of variable-length strings
+     * @param maxSize - Byte length bound (default: unbounded)
+     * @returns Current instance for chaining
+     */
+    setMaxSize(maxSize?: number): StringDefinition;
     /**
      * Freezes the type definition to prevent modification
      * @returns Immutable version of the type definition
@@ -118,19 +157,33 @@ export function defineString(name?: string): StringDefinition;
  * const NTString = defineString(32, 0, 'NullTerminated');
  */
 export function defineString(size: number, filler?: number, name?: string): StringDefinition;
+/**
+ * Creates configurable length-prefixed string type definition
+ * @overload
+ * @param prefix - Integer type of the length prefix
+ * @param name - Optional type name
+ * @returns Preconfigured string definition
+ * @example 
+ * const PascalString = defineString(types.UINT_8);
+ * const WasmName = defineString(types.ULEB128, 'name');
+ */
+export function defineString(prefix: TypeDefinition<number> | TypeDefinition<bigint>, name?: string): StringDefinition;
 /**
  * String definition implementation
- * @param param0 - Size or name
- * @param filler - Padding byte value
+ * @param param0 - Size, prefix type or name
+ * @param param1 - Padding byte value or name
  * @param name - Type name
  * @returns String definition instance
  */
-export function defineString(param0?: number | string, filler?: number, name?: string): StringDefinition {
+export function defineString(param0?: number | string | TypeDefinition<number> | TypeDefinition<bigint>, param1?: number | string, name?: string): StringDefinition {
     let _name: string | undefined;
     let _size: number = 0;
     let _align: number | undefined;
     let _filler: number | undefined;
     let _coder: StringCoder = DefaultStringCoder;
+    let _prefix: TypeDefinition<any> | undefined;
+    let _terminated: boolean = false;
+    let _maxSize: number | undefined;
     let _bytes = new Uint8Array(_size);
     const setName: StringDefinition["setName"] = (name) => {
         _name = name;
@@ -153,6 +206,24 @@ export function defineString(param0?: number | string, filler?: number, name?: s
         _coder = coder ?? DefaultStringCoder;
         return typeDefinition;
     };
+    const setPrefix: StringDefinition["setPrefix"] = (prefix) => {
+        _prefix = prefix;
+        if (prefix) {
+            _terminated = false;
+        }
+        return typeDefinition;
+    };
+    const setTerminated: StringDefinition["setTerminated"] = (terminated) => {
+        _terminated = terminated ?? true;
+        if (_terminated) {
+            _prefix = void 0;
+        }
+        return typeDefinition;
+    };
+    const setMaxSize: StringDefinition["setMaxSize"] = (maxSize) => {
+        _maxSize = maxSize;
+        return typeDefinition;
+    };
     const freeze: StringDefinition["freeze"] = () => {
         const newDefinition = clone();
         return Object.freeze({
@@ -160,18 +231,110 @@ export function defineString(param0?: number | string, filler?: number, name?: s
             name: newDefinition.name,
             size: newDefinition.size,
             align: newDefinition.align,
+            dynamic: newDefinition.dynamic,
             filler: newDefinition.filler,
             coder: newDefinition.coder,
+            prefix: newDefinition.prefix,
+            terminated: newDefinition.terminated,
+            maxSize: newDefinition.maxSize,
             getter: newDefinition.getter,
             setter: newDefinition.setter,
             reactive: newDefinition.reactive,
+            measure: newDefinition.measure,
             clone: newDefinition.clone
         });
     };
     const clone: StringDefinition["clone"] = (name) => defineString(_size, _filler, name ?? _name)
         .setAlign(_align)
-        .setCoder(_coder);
-    const getter: OperationGetter<string> = ({ view, offset }) => {
+        .setCoder(_coder)
+        .setPrefix(_prefix)
+        .setTerminated(_terminated)
+        .setMaxSize(_maxSize);
+    // Variable-length layout
+    const prefixIsBigInt = () => getNativeAccessor(_prefix!)?.method.startsWith("Big") === true;
+    /** Checks that a byte range of the instance lies inside the DataView */
+    const checkRange = (view: DataView, offset: number, length: number, path?: string): void => {
+        if (offset >= 0 && length >= 0 && offset + length <= view.byteLength) {
+            return;
+        }
+        throw new BoundsError(typeDefinition.name, path ?? typeDefinition.name, offset, length, view.byteLength);
+    };
+    /** Copies bytes out of the view, decoders may reject shared buffers */
+    const readBytes = (view: DataView, offset: number, length: number, path?: string): Uint8Array => {
+        checkRange(view, offset, length, path);
+        return new Uint8Array(view.buffer, view.byteOffset + offset, length).slice();
+    };
+    /** Finds the content length of a NUL-terminated string, `terminator` is false when the bound was hit */
+    const scanTerminated = (view: DataView, offset: number): { length: number, terminator: boolean } => {
+        const bound = Math.min(_maxSize ?? Infinity, view.byteLength - offset);
+        for (let index = 0; index < bound; index++) {
+            if (view.getUint8(offset + index) === 0) {
+                return { length: index, terminator: true };
+            }
+        }
+        return { length: Math.max(bound, 0), terminator: false };
+    };
+    const encodeVariable = (value: string, path?: string): Uint8Array => {
+        const bytes = _coder.encode(value);
+        // Keep room for the terminator, prefixed lengths must fit the prefix type
+        const maxLength = Math.min(
+            typeof _maxSize === "number" ? (_terminated ? Math.max(_maxSize - 1, 0) : _maxSize) : Infinity,
+            _prefix ? getIntegerMax(_prefix) ?? Infinity : Infinity
+        );
+        if (maxLength === Infinity) {
+            return bytes;
+        }
+        validateLength(typeDefinition, path, value, bytes.length, maxLength);
+        return bytes.subarray(0, maxLength);
+    };
+    const getVariable = (context: OperationContext): string => {
+        const { view, offset, path } = context;
+        if (_terminated) {
+            return _coder.decode(readBytes(view, offset, scanTerminated(view, offset).length, path));
+        }
+        const length = Number(_prefix!.getter(context));
+        return _coder.decode(readBytes(view, offset + instanceSize(_prefix!, context), length, path));
+    };
+    const setVariable = (context: OperationContext, value: string): void => {
+        const { view, offset, path } = context;
+        const bytes = encodeVariable(value, path);
+        const length = prefixIsBigInt() ? BigInt(bytes.length) : bytes.length;
+        const start = _prefix ? offset + instanceSize(_prefix, context, length) : offset;
+        // Nothing is written unless the whole instance fits
+        checkRange(view, offset, start - offset + bytes.length + (_terminated ? 1 : 0), path);
+        if (_prefix) {
+            _prefix.setter(context, length);
+        }
+        new Uint8Array(view.buffer, view.byteOffset + start, bytes.length).set(bytes);
+        if (_terminated) {
+            view.setUint8(start + bytes.length, 0);
+        }
+    };
+    const measure: OperationMeasure<string> = (context, value) => {
+        if (value !== void 0) {
+            const length = encodeVariable(value, context.path).length;
+            if (_terminated) {
+                return length + 1;
+            }
+            return instanceSize(_prefix!, context, prefixIsBigInt() ? BigInt(length) : length) + length;
+        }
+        if (_terminated) {
+            const { length, terminator } = scanTerminated(context.view, context.offset);
+            return terminator ? length + 1 : length;
+        }
+        return instanceSize(_prefix!, context) + Number(_prefix!.getter(context));
+    };
+    const getter: OperationGetter<string> = (context) => {
+        const { view, offset, safe, path } = context;
+        if (safe) {
+            checkBounds(typeDefinition, view, offset, path);
+        }
+        if (_prefix || _terminated) {
+            if (safe) {
+                checkRange(view, offset, instanceSize(typeDefinition, context), path);
+            }
+            return getVariable(context);
+        }
         let actualLength = _size;
         for (let index = 0; index < _size; index++) {
             const byte = view.getUint8(offset + index);
@@ -184,8 +347,19 @@ export function defineString(param0?: number | string, filler?: number, name?: s
         const actualBytes = _bytes.subarray(0, actualLength);
         return _coder.decode(actualBytes);
     };
-    const setter: OperationSetter<string> = ({ view, offset }, value) => {
+    const setter: OperationSetter<string> = (context, value) => {
+        const { view, offset, safe, path } = context;
+        if (_prefix || _terminated) {
+            if (safe) {
+                checkRange(view, offset, instanceSize(typeDefinition, context, value), path);
+            }
+            return setVariable(context, value);
+        }
+        if (safe) {
+            checkBounds(typeDefinition, view, offset, path);
+        }
         const bytes = _coder.encode(value);
+        validateLength(typeDefinition, path, value, bytes.length, _size);
         const writeLength = Math.min(bytes.length, _size);
         for (let index = 0; index < writeLength; index++) {
             view.setUint8(offset + index, bytes[index]);
@@ -196,12 +370,23 @@ export function defineString(param0?: number | string, filler?: number, name?: s
             }
         }
     };
-    const reactive: OperationReactive<string> = ({ view, localOffset, baseOffset, cacheGetter }) => {
+    const reactive: OperationReactive<string> = ({ view, littleEndian, safe, path, localOffset, baseOffset, cacheGetter }) => {
         const getter = () => {
+            const dataView = view();
             const offset = localOffset + baseOffset();
+            if (safe) {
+                checkBounds(typeDefinition, dataView, offset, path);
+            }
+            if (_prefix || _terminated) {
+                const context: OperationContext = { view: dataView, offset, littleEndian, safe, path };
+                if (safe) {
+                    checkRange(dataView, offset, instanceSize(typeDefinition, context), path);
+                }
+                return getVariable(context);
+            }
             let actualLength = _size;
             for (let index = 0; index < _size; index++) {
-                const byte = view.getUint8(offset + index);
+                const byte = dataView.getUint8(offset + index);
                 _bytes[index] = byte;
                 if (typeof _filler === "number" && byte === _filler) {
                     actualLength = index;
@@ -217,9 +402,24 @@ export function defineString(param0?: number | string, filler?: number, name?: s
     const typeDefinition: StringDefinition = {
         isTypeDefinition: TypeDefinitionSymbol,
         get name() {
-            return _name ?? `string(${_size})`;
+            if (_name) {
+                return _name;
+            }
+            if (_prefix) {
+                return `string(${_prefix.name})`;
+            }
+            if (_terminated) {
+                return `cstring(${_maxSize ?? ""})`;
+            }
+            return `string(${_size})`;
         },
         get size() {
+            if (_prefix) {
+                return _prefix.size;
+            }
+            if (_terminated) {
+                return 1;
+            }
             return Math.max(_size, 0);
         },
         get align() {
@@ -231,24 +431,58 @@ export function defineString(param0?: number | string, filler?: number, name?: s
         get coder() {
             return _coder;
         },
+        get prefix() {
+            return _prefix;
+        },
+        get terminated() {
+            return _terminated;
+        },
+        get maxSize() {
+            return _maxSize;
+        },
+        get dynamic() {
+            return _prefix !== void 0 || _terminated;
+        },
         getter,
         setter,
         reactive,
+        measure,
         setName,
         setSize,
         setAlign,
         setFiller,
         setCoder,
+        setPrefix,
+        setTerminated,
+        setMaxSize,
         freeze,
         clone
     };
     if (typeof param0 === "number") {
         setSize(param0);
-        setFiller(filler);
+        setFiller(param1 as number | undefined);
         setName(name);
     }
+    else if (typeof param0 === "object") {
+        setPrefix(param0);
+        setName(param1 as string | undefined);
+    }
     else {
         setName(param0);
     }
     return typeDefinition;
 }
+
+/**
+ * Creates NUL-terminated string type definition of unknown length (C string)
+ * @param maxSize - Maximum byte length including the terminator (default: bounded by the DataView)
+ * @param name - Optional type name
+ * @returns Preconfigured string definition
+ * @example 
+ * const ExportName = defineCString(256);
+ */
+export function defineCString(maxSize?: number, name?: string): StringDefinition {
+    return defineString(name)
+        .setTerminated()
+        .setMaxSize(maxSize);
+}
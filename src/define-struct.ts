@@ -1,6 +1,9 @@
-import { TypeDefinitionSymbol, OperationRawSymbol, isTypeDefinition } from "./core";
-import type { OperationGetter, OperationSetter, OperationReactive } from "./core";
-import type { TypeDefinition, OperationContextDynamic } from "./core";
+import { TypeDefinitionSymbol, OperationRawSymbol, OperationSourceSymbol, isTypeDefinition, joinPath, isPathTracked, parsePath, instanceSize, toJSONValue, reactiveTarget, fieldDescriptor, reactive as toReactive } from "./core";
+import { writeTracked } from "./watch";
+import { defineConst } from "./define-const";
+import type { OperationGetter, OperationSetter, OperationReactive, OperationMeasure } from "./core";
+import type { TypeDefinition, OperationContext, OperationContextDynamic, ReactiveSource, Constant } from "./core";
+import type { FieldPath, FieldPathTuple, FieldPathValue, FieldPathSegments } from "./core";
 
 /**
  * Utility type to force TypeScript to simplify complex types
@@ -40,18 +43,36 @@ export interface PropertyDefinition<T> {
     order?: number;
 }
 
+/**
+ * Creates a constant property definition
+ * @overload
+ * @param type - Property type definition
+ * @param options - Configuration options, `const` is the expected value (see {@link defineConst})
+ * @returns Property definition object
+ * @example 
+ * defineProperty(types.WORD, { const: 0x5a4d })
+ */
+export function defineProperty<T, const C extends T>(type: TypeDefinition<T>, options: { align?: number, offset?: number, order?: number, const: C }): PropertyDefinition<Constant<C>>;
 /**
  * Creates a property definition
+ * @overload
  * @param type - Property type definition
  * @param options - Configuration options
  * @returns Property definition object
  * @example 
  * defineProperty(Uint32, { align: 8, offset: 0x10 })
  */
-export function defineProperty<T>(type: TypeDefinition<T>, options?: { align?: number, offset?: number, order?: number }): PropertyDefinition<T> {
+export function defineProperty<T>(type: TypeDefinition<T>, options?: { align?: number, offset?: number, order?: number }): PropertyDefinition<T>;
+/**
+ * Property definition implementation
+ * @param type - Property type definition
+ * @param options - Configuration options
+ * @returns Property definition object
+ */
+export function defineProperty<T>(type: TypeDefinition<T>, options?: { align?: number, offset?: number, order?: number, const?: T }): PropertyDefinition<T> {
     return {
         isPropertyDefinition: PropertyDefinitionSymbol,
-        type,
+        type: options?.const !== void 0 ? defineConst(type, options.const).freeze() as TypeDefinition<any> : type,
         align: options?.align,
         offset: options?.offset,
         order: options?.order
@@ -173,11 +194,27 @@ export interface PaddingRecord {
 
 export type KeysWithPaddingDefinition<T> = { [K in keyof T]: T[K] extends typeof PaddingDefinitionSymbol ? K : never }[keyof T];
 
+/**
+ * Property key or nested field path of a struct
+ * @template T - Struct shape
+ * @example
+ * "OptionalHeader.DataDirectory[1].VirtualAddress"
+ * ["OptionalHeader", "DataDirectory", 1, "VirtualAddress"]
+ */
+export type StructPath<T> = Exclude<keyof T, KeysWithPaddingDefinition<T>>
+    | FieldPath<Flatten<Omit<T, KeysWithPaddingDefinition<T>>>>
+    | FieldPathTuple<Flatten<Omit<T, KeysWithPaddingDefinition<T>>>>;
+
+/** Unique symbol identifying struct definitions */
+export const StructDefinitionSymbol = Symbol("STRUCT_TYPE_DEFINITION");
+
 /**
  * Immutable struct type definition (frozen state)
  * @template T - Struct shape
  */
 export interface StructDefinitionFreezed<T extends Record<StructKey, any>> extends TypeDefinition<Flatten<Omit<T, KeysWithPaddingDefinition<T>>>> {
+    /** Struct identification marker */
+    isStructDefinition: typeof StructDefinitionSymbol;
     /** Array of property keys (excluding padding) */
     keys: ReadonlyArray<StructKey>;
     /** Map of property records (excluding padding) */
@@ -186,19 +223,43 @@ export interface StructDefinitionFreezed<T extends Record<StructKey, any>> exten
     propertyList: ReadonlyArray<PropertyRecord>;
     /** Complete layout records (properties + padding) */
     recordList: ReadonlyArray<PropertyRecord | PaddingRecord>;
+    /**
+     * Whether the layout depends on the instance data
+     * @remarks
+     * - True when any property type is dynamic (e.g. variable-length arrays)
+     * - `size` and static offsets then describe the layout with minimum property sizes
+     */
+    dynamic: boolean;
     /**
      * Get the relative offset of property
-     * @param key - Property key
+     * @param path - Property key or nested field path, e.g. `OptionalHeader.DataDirectory[1].VirtualAddress`
      * @param baseOffset - A Base offset add to property offset
+     * @param view - DataView holding a struct instance at `baseOffset`, required for the actual offset in dynamic structs
+     * @param littleEndian - Byte order of the instance
      * @returns Relative offset
+     * @throws {Error} If a path segment does not exist
      */
-    offsetOf(key: Exclude<keyof T, KeysWithPaddingDefinition<T>>, baseOffset?: number): number;
+    offsetOf(path: StructPath<T>, baseOffset?: number, view?: DataView, littleEndian?: boolean): number;
     /**
      * Get the byte size of property
-     * @param key - Property key
+     * @param path - Property key or nested field path
+     * @param baseOffset - Offset of the struct instance
+     * @param view - DataView holding a struct instance at `baseOffset`, required for the actual size in dynamic structs
+     * @param littleEndian - Byte order of the instance
      * @returns Byte size
+     * @throws {Error} If a path segment does not exist
+     */
+    sizeOf(path: StructPath<T>, baseOffset?: number, view?: DataView, littleEndian?: boolean): number;
+    /**
+     * Get the type definition of property
+     * @param path - Property key or nested field path
+     * @returns Type definition at the path
+     * @throws {Error} If a path segment does not exist
+     * @template P - Field path
      */
-    sizeOf(key: Exclude<keyof T, KeysWithPaddingDefinition<T>>): number;
+    typeOf<P extends StructPath<T>>(path: P): TypeDefinition<FieldPathValue<Flatten<Omit<T, KeysWithPaddingDefinition<T>>>, P>>;
+    /** Instance size implementation, equal to `size` for non-dynamic structs */
+    measure: OperationMeasure<Flatten<Omit<T, KeysWithPaddingDefinition<T>>>>;
     /**
      * Creates a mutable clone
      * @param name - Optional new name for cloned definition
@@ -242,6 +303,17 @@ export interface StructDefinition<T extends Record<StructKey, any>> extends Stru
      * @template M - New struct shape
      */
     setProperties<M extends Record<StructKey, any>>(options: StructDefinitionOptions<M>): StructDefinition<M>;
+    /**
+     * Adds new constant property
+     * @param key - Property key (must not exist)
+     * @param type - Property type definition
+     * @param options - Configuration options, `const` is the expected value (see {@link defineConst})
+     * @returns Current struct definition with extended type
+     * @template K - New property key
+     * @template V - Value type of the property type
+     * @template C - Constant value
+     */
+    addProperty<K extends StructKey, V, const C extends V>(key: K extends keyof T ? never : K, type: TypeDefinition<V>, options: { align?: number, offset?: number, const: C }): StructDefinition<Flatten<T & { [X in K]: Constant<C> }>>;
     /**
      * Adds new property
      * @param key - Property key (must not exist)
@@ -337,6 +409,7 @@ export function defineStruct<T extends Record<StructKey, any> = {}>(param0?: Str
     let _sizeCalc: number = 0;
     let _align: number | undefined;
     let _alignCalc: number = 1;
+    let _dynamic: boolean = false;
     let _keys: ReadonlyArray<StructKey> = new Array();
     let _properties: ReadonlyMap<StructKey, PropertyRecord> = new Map();
     let _propertyList: ReadonlyArray<PropertyRecord> = new Array();
@@ -353,56 +426,93 @@ export function defineStruct<T extends Record<StructKey, any> = {}>(param0?: Str
         _align = align;
         return typeDefinition;
     };
-    const updateLayout = (): StructDefinition<T> => {
-        const keys = new Array<StructKey>();
-        const properties = new Map<StructKey, PropertyRecord>();
-        const propertyList = new Array<PropertyRecord>();
+    /**
+     * Walks the records in layout order
+     * @param visit - Receives each record with its aligned offset, returns the record size
+     * @returns Total size (including end padding) and alignment
+     */
+    const layout = (visit: (record: PropertyRecord | PaddingRecord, offset: number) => number): { size: number, align: number } => {
         let maxAlign: number = 1;
         let maxOffset: number = 0;
         let offset: number = 0;
         for (const record of _recordList) {
-            // Get size, align
-            let size: number;
-            let align: number;
-            if (record.padding) {
-                size = record.size;
-                align = Math.max(record.align, 1);
-            }
-            else {
-                size = record.type.size;
-                align = Math.max(record.align ?? record.type.align, 1);
-                // Record to map
-                keys.push(record.key);
-                properties.set(record.key, record);
-                propertyList.push(record);
-            }
-            // Static offset
+            const align = Math.max((record.padding ? record.align : record.align ?? record.type.align), 1);
+            // Static offset or padding calculation
             const offsetStatic = record.offsetStatic;
-            if (typeof offsetStatic === "number") {
-                record.offset = offsetStatic;
-                offset = offsetStatic + size;
-            }
-            else {
-                // Padding calculation
-                const padding = (align - (offset % align)) % align;
-                // Update
-                offset += padding;
-                record.offset = offset;
-                offset += size;
-            }
+            const start = typeof offsetStatic === "number" ? offsetStatic : offset + (align - (offset % align)) % align;
+            offset = start + visit(record, start);
             maxAlign = Math.max(maxAlign, align);
             maxOffset = Math.max(maxOffset, offset);
         }
         // End padding
         const endPadding = (maxAlign - (maxOffset % maxAlign)) % maxAlign;
+        return {
+            size: maxOffset + endPadding,
+            align: maxAlign
+        };
+    };
+    const updateLayout = (): StructDefinition<T> => {
+        const keys = new Array<StructKey>();
+        const properties = new Map<StructKey, PropertyRecord>();
+        const propertyList = new Array<PropertyRecord>();
+        let dynamic = false;
+        const { size, align } = layout((record, offset) => {
+            record.offset = offset;
+            if (record.padding) {
+                return record.size;
+            }
+            // Record to map
+            keys.push(record.key);
+            properties.set(record.key, record);
+            propertyList.push(record);
+            dynamic ||= record.type.dynamic === true;
+            return record.type.size;
+        });
         // Update
-        _alignCalc = maxAlign;
-        _sizeCalc = maxOffset + endPadding;
+        _alignCalc = align;
+        _sizeCalc = size;
+        _dynamic = dynamic;
         _keys = keys;
         _properties = properties;
         _propertyList = propertyList;
         return typeDefinition;
     };
+    /**
+     * Computes the actual layout of an instance
+     * @param view - DataView holding the instance
+     * @param offset - Offset of the instance
+     * @param littleEndian - Byte order of the instance
+     * @param parent - Reactive proxy of the instance (created when omitted), or the value to measure
+     * @param until - Stops measuring at this property, its offset only depends on the preceding records
+     * @param fromValue - Whether `parent` is a value about to be written
+     * @returns Relative offsets and sizes of properties, total size
+     */
+    const instanceLayout = (view: DataView, offset: number, littleEndian?: boolean, parent?: any, until?: StructKey, fromValue?: boolean) => {
+        parent ??= toReactive(view, typeDefinition, offset, littleEndian);
+        const records = new Map<StructKey, { offset: number, size: number }>();
+        let done = false;
+        const { size } = layout((record, local) => {
+            if (done) {
+                return 0;
+            }
+            if (record.padding) {
+                return record.size;
+            }
+            if (record.key === until) {
+                records.set(record.key, { offset: local, size: 0 });
+                done = true;
+                return 0;
+            }
+            const context = { view, offset: offset + local, littleEndian, parent };
+            const size = fromValue ? instanceSize(record.type, context, parent[record.key]) : instanceSize(record.type, context);
+            records.set(record.key, { offset: local, size });
+            return size;
+        });
+        return {
+            records,
+            size: Math.max(_size ?? size, 0)
+        };
+    };
     const propertyToRecord = <T>(key: StructKey, definition: PropertyDefinition<T>): PropertyRecord => ({
         key,
         type: definition.type,
@@ -487,9 +597,9 @@ export function defineStruct<T extends Record<StructKey, any> = {}>(param0?: Str
         _recordList.push(property);
         return updateLayout();
     };
-    const addProperty: StructDefinition<T>["addProperty"] = (key, type, options) => {
+    const addProperty = ((key: StructKey, type: TypeDefinition<any>, options?: { align?: number, offset?: number, const?: any }) => {
         return addRecord(propertyToRecord(key, defineProperty(type, options)));
-    };
+    }) as StructDefinition<T>["addProperty"];
     const addPadding: StructDefinition<T>["addPadding"] = (key, typeOrSize, options) => {
         return addRecord(paddingToRecord(key, definePadding(typeOrSize, options)));
     };
@@ -523,6 +633,7 @@ export function defineStruct<T extends Record<StructKey, any> = {}>(param0?: Str
         const newDefinition = clone();
         return Object.freeze({
             isTypeDefinition: TypeDefinitionSymbol,
+            isStructDefinition: StructDefinitionSymbol,
             name: newDefinition.name,
             size: newDefinition.size,
             align: newDefinition.align,
@@ -530,8 +641,11 @@ export function defineStruct<T extends Record<StructKey, any> = {}>(param0?: Str
             properties: Object.freeze(newDefinition.properties),
             propertyList: Object.freeze(newDefinition.propertyList),
             recordList: Object.freeze(newDefinition.recordList),
+            dynamic: newDefinition.dynamic,
             offsetOf: newDefinition.offsetOf,
             sizeOf: newDefinition.sizeOf,
+            typeOf: newDefinition.typeOf,
+            measure: newDefinition.measure,
             getter: newDefinition.getter,
             setter: newDefinition.setter,
             reactive: newDefinition.reactive,
@@ -541,53 +655,202 @@ export function defineStruct<T extends Record<StructKey, any> = {}>(param0?: Str
     const clone: StructDefinition<T>["clone"] = (name) => defineStruct(getProperties(), name ?? _name)
         .setSize(_size)
         .setAlign(_align) as any;
-    const offsetOf: StructDefinition<T>["offsetOf"] = (key, baseOffset) => {
-        const property = _properties.get(key as StructKey);
-        if (property) {
-            if (typeof baseOffset === "number") {
-                return property.offset + baseOffset;
-            }
-            return property.offset;
+    /** Resolves the property of the first path segment, exact keys take precedence over paths */
+    const splitPath = (path: StructKey | FieldPathSegments): [PropertyRecord, Array<StructKey | number>] => {
+        const exact = typeof path === "object" ? void 0 : _properties.get(path);
+        if (exact) {
+            return [exact, []];
+        }
+        const [key, ...rest] = parsePath(path);
+        const property = typeof key === "number" ? void 0 : _properties.get(key);
+        if (!property) {
+            const keyString = typeof key === "symbol" ? `Symbol(${key.description || ""})` : key;
+            throw new Error(`[${typeDefinition.name}] There is no attribute named ${keyString}.`);
+        }
+        return [property, rest];
+    };
+    /** Definition resolving the remaining path segments of property */
+    const nestedOf = (property: PropertyRecord): StructDefinitionFreezed<any> => {
+        const type = property.type as Partial<StructDefinitionFreezed<any>>;
+        if (typeof type.offsetOf !== "function" || typeof type.sizeOf !== "function" || typeof type.typeOf !== "function") {
+            const keyString = typeof property.key === "symbol" ? `Symbol(${property.key.description || ""})` : property.key;
+            throw new Error(`[${typeDefinition.name}] Attribute ${keyString} has no nested fields.`);
         }
-        const keyString: string | number = typeof key === "symbol" ? `Symbol(${key.description || ""})` : key;
-        throw new Error(`[${typeDefinition.name}] There is no attribute named ${keyString}.`);
+        return type as StructDefinitionFreezed<any>;
+    };
+    const localOffsetOf = (property: PropertyRecord, baseOffset?: number, view?: DataView, littleEndian?: boolean): number => {
+        return _dynamic && view
+            ? instanceLayout(view, baseOffset ?? 0, littleEndian, void 0, property.key).records.get(property.key)!.offset
+            : property.offset;
     };
-    const sizeOf: StructDefinition<T>["sizeOf"] = (key) => {
-        const property = _properties.get(key as StructKey);
-        if (property) {
-            return property.type.size;
+    const offsetOf: StructDefinition<T>["offsetOf"] = (path, baseOffset, view, littleEndian) => {
+        const [property, rest] = splitPath(path as StructKey | FieldPathSegments);
+        const offset = localOffsetOf(property, baseOffset, view, littleEndian);
+        if (rest.length > 0) {
+            return nestedOf(property).offsetOf(rest as any, (baseOffset ?? 0) + offset, view, littleEndian);
         }
-        const keyString: string | number = typeof key === "symbol" ? `Symbol(${key.description || ""})` : key;
-        throw new Error(`[${typeDefinition.name}] There is no attribute named ${keyString}.`);
+        if (typeof baseOffset === "number") {
+            return offset + baseOffset;
+        }
+        return offset;
     };
-    const getter: OperationGetter<any> = ({ view, offset, littleEndian }) => {
+    const sizeOf: StructDefinition<T>["sizeOf"] = (path, baseOffset, view, littleEndian) => {
+        const [property, rest] = splitPath(path as StructKey | FieldPathSegments);
+        if (rest.length > 0) {
+            const offset = localOffsetOf(property, baseOffset, view, littleEndian);
+            return nestedOf(property).sizeOf(rest as any, (baseOffset ?? 0) + offset, view, littleEndian);
+        }
+        if (_dynamic && view) {
+            return instanceLayout(view, baseOffset ?? 0, littleEndian).records.get(property.key)!.size;
+        }
+        return property.type.size;
+    };
+    const typeOf = ((path: StructKey | FieldPathSegments) => {
+        const [property, rest] = splitPath(path);
+        return rest.length > 0 ? nestedOf(property).typeOf(rest as any) : property.type;
+    }) as StructDefinition<T>["typeOf"];
+    const measure: StructDefinition<T>["measure"] = ({ view, offset, littleEndian }, value) => {
+        if (!_dynamic) {
+            return typeDefinition.size;
+        }
+        if (value !== void 0) {
+            return instanceLayout(view, offset, littleEndian, value, void 0, true).size;
+        }
+        return instanceLayout(view, offset, littleEndian).size;
+    };
+    const getter: OperationGetter<any> = ({ view, offset, littleEndian, safe, path }) => {
         const structure: Record<StructKey, any> = {};
+        // Offsets follow the decoded siblings
+        if (_dynamic) {
+            layout((record, local) => {
+                if (record.padding) {
+                    return record.size;
+                }
+                const context: OperationContext = {
+                    view,
+                    offset: offset + local,
+                    littleEndian,
+                    safe,
+                    path: isPathTracked(safe) ? joinPath(path, record.key) : void 0,
+                    parent: structure
+                };
+                structure[record.key] = record.type.getter(context);
+                return instanceSize(record.type, context);
+            });
+            return structure as T;
+        }
         for (const property of _propertyList) {
             structure[property.key] = property.type.getter({
                 view,
                 offset: offset + property.offset,
                 littleEndian: littleEndian,
+                safe,
+                path: isPathTracked(safe) ? joinPath(path, property.key) : void 0,
+                parent: structure
             });
         }
         return structure as T;
     };
-    const setter: OperationSetter<any> = ({ view, offset, littleEndian }, value) => {
+    const setter: OperationSetter<any> = ({ view, offset, littleEndian, safe, path }, value) => {
+        // Siblings written by other properties (e.g. union tags) are skipped afterwards
+        let written: Set<StructKey> | undefined;
+        const setSibling = (key: StructKey, sibling: any) => {
+            const property = _properties.get(key);
+            if (!property) {
+                const keyString = typeof key === "symbol" ? `Symbol(${key.description || ""})` : key;
+                throw new Error(`[${typeDefinition.name}] There is no attribute named ${keyString}.`);
+            }
+            const local = _dynamic
+                ? instanceLayout(view, offset, littleEndian, value, key, true).records.get(key)!.offset
+                : property.offset;
+            property.type.setter({
+                view,
+                offset: offset + local,
+                littleEndian,
+                safe,
+                path: isPathTracked(safe) ? joinPath(path, key) : void 0,
+                parent: value
+            }, sibling);
+            (written ??= new Set()).add(key);
+        };
+        // Offsets follow the written value
+        if (_dynamic) {
+            layout((record, local) => {
+                if (record.padding) {
+                    return record.size;
+                }
+                const context: OperationContext = {
+                    view,
+                    offset: offset + local,
+                    littleEndian,
+                    safe,
+                    path: isPathTracked(safe) ? joinPath(path, record.key) : void 0,
+                    parent: value,
+                    setSibling
+                };
+                if (!written?.has(record.key)) {
+                    record.type.setter(context, value[record.key]);
+                }
+                return instanceSize(record.type, context, value[record.key]);
+            });
+            return;
+        }
         for (const property of _propertyList) {
+            if (written?.has(property.key)) {
+                continue;
+            }
             property.type.setter({
                 view,
                 offset: offset + property.offset,
                 littleEndian: littleEndian,
+                safe,
+                path: isPathTracked(safe) ? joinPath(path, property.key) : void 0,
+                parent: value,
+                setSibling
             }, value[property.key]);
         }
     };
-    const reactive: OperationReactive<any> = ({ view, littleEndian, localOffset, baseOffset, cacheGetter }) => {
+    const reactive: OperationReactive<any> = ({ view, littleEndian, safe, path, localOffset, baseOffset, cacheGetter }) => {
         const proxyToRaw = () => typeDefinition.getter({
-            view,
+            view: view(),
             offset: baseOffset() + localOffset,
-            littleEndian
+            littleEndian,
+            safe,
+            path
         });
+        // Relative offset of property, resolved through the live instance in dynamic structs
+        const propertyOffset = (property: PropertyRecord): number => {
+            if (!_dynamic) {
+                return property.offset;
+            }
+            return instanceLayout(view(), baseOffset() + localOffset, littleEndian, proxy, property.key).records.get(property.key)!.offset;
+        };
+        const proxyToSource = (key?: StructKey | number): ReactiveSource | undefined => {
+            if (key === void 0) {
+                return {
+                    view,
+                    type: typeDefinition,
+                    littleEndian,
+                    path: path ?? typeDefinition.name,
+                    offset: () => baseOffset() + localOffset
+                };
+            }
+            const property = _properties.get(key as StructKey);
+            if (!property) {
+                return void 0;
+            }
+            return {
+                view,
+                type: property.type,
+                littleEndian,
+                path: joinPath(path, property.key),
+                offset: () => baseOffset() + localOffset + propertyOffset(property)
+            };
+        };
         const internal = new Map<string | symbol, any>([
-            [OperationRawSymbol, proxyToRaw]
+            [OperationRawSymbol, proxyToRaw],
+            [OperationSourceSymbol, proxyToSource],
+            ["toJSON", () => toJSONValue(proxyToRaw())]
         ]);
         // Prop getter
         const getterMap = new Map<StructKey, () => any>();
@@ -598,9 +861,21 @@ export function defineStruct<T extends Record<StructKey, any> = {}>(param0?: Str
             }
             const property = _properties.get(key);
             if (property) {
-                const context: OperationContextDynamic = {
+                const context: OperationContextDynamic = _dynamic ? {
                     view,
                     littleEndian,
+                    safe,
+                    path: joinPath(path, property.key),
+                    parent: proxy,
+                    localOffset: 0,
+                    baseOffset: () => baseOffset() + localOffset + propertyOffset(property),
+                    cacheGetter: getter => getterMap.set(property.key, getter)
+                } : {
+                    view,
+                    littleEndian,
+                    safe,
+                    path: joinPath(path, property.key),
+                    parent: proxy,
                     localOffset: localOffset + property.offset,
                     baseOffset,
                     cacheGetter: getter => getterMap.set(property.key, getter)
@@ -617,10 +892,14 @@ export function defineStruct<T extends Record<StructKey, any> = {}>(param0?: Str
         const set: ProxyHandler<T>["set"] = (target, key, value) => {
             const property = _properties.get(key);
             if (property) {
-                property.type.setter({
-                    view,
-                    offset: baseOffset() + localOffset + property.offset,
-                    littleEndian
+                writeTracked(property.type, {
+                    view: view(),
+                    offset: baseOffset() + localOffset + propertyOffset(property),
+                    littleEndian,
+                    safe,
+                    path: joinPath(path, property.key),
+                    parent: proxy,
+                    setSibling: (key, sibling) => proxy[key as keyof T] = sibling
                 }, value);
                 return true;
             }
@@ -634,13 +913,21 @@ export function defineStruct<T extends Record<StructKey, any> = {}>(param0?: Str
         const ownKeys: ProxyHandler<T>["ownKeys"] = () => {
             return _keys;
         };
+        // Enumerable data properties, enables Object.keys and spreading
+        const getOwnPropertyDescriptor: ProxyHandler<T>["getOwnPropertyDescriptor"] = (target, key) => {
+            if (!_properties.has(key)) {
+                return void 0;
+            }
+            return fieldDescriptor(get(target, key, proxy));
+        };
         const defineProperty: ProxyHandler<T>["defineProperty"] = () => false;
         const deleteProperty: ProxyHandler<T>["deleteProperty"] = () => false;
-        const proxy = new Proxy({} as T, {
+        const proxy: T = new Proxy(reactiveTarget({} as T, proxyToRaw), {
             get,
             set,
             has,
             ownKeys,
+            getOwnPropertyDescriptor,
             defineProperty,
             deleteProperty
         });
@@ -649,6 +936,7 @@ export function defineStruct<T extends Record<StructKey, any> = {}>(param0?: Str
     };
     const typeDefinition: StructDefinition<T> = {
         isTypeDefinition: TypeDefinitionSymbol,
+        isStructDefinition: StructDefinitionSymbol,
         get name() {
             return _name ?? `struct{${_keys.length}}`;
         },
@@ -670,8 +958,13 @@ export function defineStruct<T extends Record<StructKey, any> = {}>(param0?: Str
         get recordList() {
             return _recordList;
         },
+        get dynamic() {
+            return _dynamic;
+        },
         offsetOf,
         sizeOf,
+        typeOf,
+        measure,
         getter,
         setter,
         reactive,
@@ -696,3 +989,19 @@ export function defineStruct<T extends Record<StructKey, any> = {}>(param0?: Str
     }
     return typeDefinition as any;
 }
+
+/**
+ * Type guard for struct definitions
+ * @param test - Value to check
+ * @returns Whether the value is a struct definition
+ */
+export function isStructDefinition(test: any): test is StructDefinitionFreezed<any> {
+    if (typeof test !== "object" || test === null) {
+        return false;
+    }
+    if (test.isStructDefinition === StructDefinitionSymbol) {
+        return true;
+    }
+    return false;
+}
+
@@ -0,0 +1,192 @@
+import { TypeDefinitionSymbol, instanceSize } from "./core";
+import type { OperationGetter, OperationSetter, OperationReactive, OperationMeasure } from "./core";
+import type { TypeDefinition, OperationContext } from "./core";
+
+/**
+ * Converts a base value to the mapped value
+ * @template T - Mapped value type
+ * @template B - Base value type
+ */
+export type TransformDecode<T, B> = (value: B, context: OperationContext) => T;
+
+/**
+ * Converts a mapped value to the base value
+ * @template T - Mapped value type
+ * @template B - Base value type
+ */
+export type TransformEncode<T, B> = (value: T, context: OperationContext) => B;
+
+/**
+ * Options of {@link defineTransform}
+ * @template T - Mapped value type
+ * @template B - Base value type
+ */
+export interface TransformOptions<T, B> {
+    /** Converts the read base value */
+    decode: TransformDecode<T, B>;
+    /** Converts the value to write */
+    encode: TransformEncode<T, B>;
+    /** Optional type name (default: `transform(base)`) */
+    name?: string;
+}
+
+/**
+ * Immutable transform type definition (frozen state)
+ * @template T - Mapped value type
+ * @template B - Base value type
+ */
+export interface TransformDefinitionFreezed<T, B> extends TypeDefinition<T> {
+    /** Type storing the base value */
+    base: TypeDefinition<B>;
+    /** Converts the read base value */
+    decode: TransformDecode<T, B>;
+    /** Converts the value to write */
+    encode: TransformEncode<T, B>;
+    /**
+     * Creates a mutable clone
+     * @param name - Optional new name for cloned definition
+     * @returns Mutable transform definition
+     */
+    clone(name?: string): TransformDefinition<T, B>;
+}
+
+/**
+ * Mutable transform type definition with chainable configuration
+ * @template T - Mapped value type
+ * @template B - Base value type
+ */
+export interface TransformDefinition<T, B> extends TransformDefinitionFreezed<T, B> {
+    /**
+     * Sets type name
+     * @param name - New name for the type
+     * @returns Current instance for chaining
+     */
+    setName(name?: string): TransformDefinition<T, B>;
+    /**
+     * Sets the decode function
+     * @param decode - Converts the read base value
+     * @returns Current instance for chaining
+     */
+    setDecode(decode: TransformDecode<T, B>): TransformDefinition<T, B>;
+    /**
+     * Sets the encode function
+     * @param encode - Converts the value to write
+     * @returns Current instance for chaining
+     */
+    setEncode(encode: TransformEncode<T, B>): TransformDefinition<T, B>;
+    /**
+     * Freezes the type definition to prevent modification
+     * @returns Immutable version of the type definition
+     */
+    freeze(): TransformDefinitionFreezed<T, B>;
+}
+
+/**
+ * Creates a type definition mapping the values of another type
+ * @param base - Type storing the base value
+ * @param options - Decode and encode functions, optional name
+ * @returns Transform definition with the size and alignment of the base type
+ * @template T - Mapped value type
+ * @template B - Base value type
+ * @remarks
+ * - Reactive reads decode on every access, decoded objects are detached copies
+ * - Dynamic base types stay dynamic, written sizes are measured on the encoded value
+ * @example
+ * const TimeDateStamp = defineTransform(types.DWORD, {
+ *     decode: (value) => new Date(value * 1000),
+ *     encode: (value) => Math.floor(value.getTime() / 1000),
+ *     name: "time_t"
+ * }).freeze();
+ * ref(view, TimeDateStamp, 0x88, true).value; // Date
+ */
+export function defineTransform<T, B>(base: TypeDefinition<B>, options: TransformOptions<T, B>): TransformDefinition<T, B> {
+    let _name: string | undefined;
+    let _decode: TransformDecode<T, B> = options.decode;
+    let _encode: TransformEncode<T, B> = options.encode;
+    const setName: TransformDefinition<T, B>["setName"] = (name) => {
+        _name = name;
+        return typeDefinition;
+    };
+    const setDecode: TransformDefinition<T, B>["setDecode"] = (decode) => {
+        _decode = decode;
+        return typeDefinition;
+    };
+    const setEncode: TransformDefinition<T, B>["setEncode"] = (encode) => {
+        _encode = encode;
+        return typeDefinition;
+    };
+    const freeze: TransformDefinition<T, B>["freeze"] = () => {
+        const newDefinition = clone();
+        return Object.freeze({
+            isTypeDefinition: TypeDefinitionSymbol,
+            name: newDefinition.name,
+            size: newDefinition.size,
+            align: newDefinition.align,
+            dynamic: newDefinition.dynamic,
+            base: newDefinition.base,
+            decode: newDefinition.decode,
+            encode: newDefinition.encode,
+            getter: newDefinition.getter,
+            setter: newDefinition.setter,
+            reactive: newDefinition.reactive,
+            measure: newDefinition.measure,
+            clone: newDefinition.clone
+        });
+    };
+    const clone: TransformDefinition<T, B>["clone"] = (name) => defineTransform<T, B>(base, {
+        decode: _decode,
+        encode: _encode,
+        name: name ?? _name
+    });
+    const getter: OperationGetter<T> = (context) => _decode(base.getter(context), context);
+    const setter: OperationSetter<T> = (context, value) => {
+        base.setter(context, _encode(value, context));
+    };
+    const reactive: OperationReactive<T> = ({ view, littleEndian, safe, path, localOffset, baseOffset, cacheGetter }) => {
+        const getter = () => typeDefinition.getter({
+            view: view(),
+            offset: localOffset + baseOffset(),
+            littleEndian,
+            safe,
+            path
+        });
+        cacheGetter(getter);
+        return getter();
+    };
+    const measure: OperationMeasure<T> = (context, value) => {
+        return instanceSize(base, context, value === void 0 ? void 0 : _encode(value, context));
+    };
+    const typeDefinition: TransformDefinition<T, B> = {
+        isTypeDefinition: TypeDefinitionSymbol,
+        get name() {
+            return _name ?? `transform(${base.name})`;
+        },
+        get size() {
+            return base.size;
+        },
+        get align() {
+            return base.align;
+        },
+        get dynamic() {
+            return base.dynamic === true;
+        },
+        base,
+        get decode() {
+            return _decode;
+        },
+        get encode() {
+            return _encode;
+        },
+        getter,
+        setter,
+        reactive,
+        measure,
+        setName,
+        setDecode,
+        setEncode,
+        freeze,
+        clone
+    };
+    setName(options.name);
+    return typeDefinition;
+}
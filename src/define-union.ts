@@ -0,0 +1,487 @@
+import { TypeDefinitionSymbol, OperationRawSymbol, OperationSourceSymbol, joinPath, isPathTracked, instanceSize, toJSONValue, reactiveTarget, fieldDescriptor } from "./core";
+import { writeTracked } from "./watch";
+import type { OperationGetter, OperationSetter, OperationReactive, OperationMeasure } from "./core";
+import type { TypeDefinition, OperationContext, OperationContextDynamic, ReactiveSource, Writable } from "./core";
+import type { StructKey } from "./define-struct";
+
+/**
+ * Configuration object for union variants
+ * @template T - Union shape mapping variant keys to types
+ */
+export type UnionDefinitionOptions<T extends Record<StructKey, any>> = {
+    [K in keyof T]: TypeDefinition<T[K]>;
+};
+
+/**
+ * Value of a discriminated union, exactly one variant key is present
+ * @template T - Union shape
+ * @example
+ * // { circle: Circle } | { rect: Rect }
+ * type Shape = OneOf<{ circle: Circle, rect: Rect }>;
+ */
+export type OneOf<T extends Record<StructKey, any>> = {
+    [K in keyof T]: { [P in K]: T[K] } & { [P in Exclude<keyof T, K>]?: never };
+}[keyof T];
+
+/**
+ * Value of a plain union, every variant is present
+ * @template T - Union shape
+ * @remarks Write operations accept a single variant as well
+ */
+export type PlainUnionValue<T extends Record<StructKey, any>> = Writable<T, OneOf<T>>;
+
+/**
+ * Selects the active variant of a discriminated union
+ * @param parent - Value or reactive proxy of the enclosing struct
+ * @param context - Location of the union
+ * @returns Variant key, `undefined` if no variant matches
+ */
+export type UnionSelector<T extends Record<StructKey, any>> = (parent: any, context: OperationContext) => keyof T | undefined;
+
+/** Unique symbol identifying union definitions */
+export const UnionDefinitionSymbol = Symbol("UNION_TYPE_DEFINITION");
+
+/**
+ * Immutable union type definition (frozen state)
+ * @template T - Union shape
+ * @template V - Value type, `PlainUnionValue<T>` for plain unions and `OneOf<T>` for discriminated unions
+ */
+export interface UnionDefinitionFreezed<T extends Record<StructKey, any>, V = PlainUnionValue<T>> extends TypeDefinition<V> {
+    /** Union identification marker */
+    isUnionDefinition: typeof UnionDefinitionSymbol;
+    /** Array of variant keys */
+    keys: ReadonlyArray<StructKey>;
+    /** Map of variant type definitions */
+    variants: ReadonlyMap<StructKey, TypeDefinition<any>>;
+    /** Whether a tag selects the active variant */
+    discriminated: boolean;
+    /** Sibling key holding the tag, `undefined` for plain unions and selector functions */
+    tagKey: StructKey | undefined;
+    /** Tag value of each variant (sibling tags only) */
+    tagValues: ReadonlyMap<StructKey, number | bigint | string>;
+    /**
+     * Resolves the active variant
+     * @param parent - Value or reactive proxy of the enclosing struct
+     * @param context - Location of the union
+     * @returns Variant key, `undefined` for plain unions or unknown tags
+     */
+    variantOf(parent: any, context: OperationContext): StructKey | undefined;
+    /**
+     * Creates a mutable clone
+     * @param name - Optional new name for cloned definition
+     * @returns Mutable union definition
+     */
+    clone(name?: string): UnionDefinition<T, V>;
+}
+
+/**
+ * Mutable union type definition with chainable API
+ * @template T - Union shape
+ * @template V - Value type
+ * @remarks
+ * - All variants start at offset 0, size and alignment are the largest of the variants
+ * - Plain unions read every variant from the same bytes, like C unions
+ * - Discriminated unions only expose the variant selected by the tag
+ */
+export interface UnionDefinition<T extends Record<StructKey, any>, V = PlainUnionValue<T>> extends UnionDefinitionFreezed<T, V> {
+    /**
+     * Sets union name
+     * @param name - New union name
+     * @returns Current instance for chaining
+     */
+    setName(name?: string): UnionDefinition<T, V>;
+    /**
+     * Replaces all variants
+     * @param options - New variant configuration
+     * @returns Current union definition with updated type
+     * @template M - New union shape
+     */
+    setVariants<M extends Record<StructKey, any>>(options: UnionDefinitionOptions<M>): UnionDefinition<M, V extends T ? PlainUnionValue<M> : OneOf<M>>;
+    /**
+     * Selects the active variant by a sibling tag field
+     * @param key - Sibling key of the tag in the enclosing struct
+     * @param values - Tag value of each variant
+     * @returns Current union definition as discriminated union
+     * @remarks
+     * - The tag must precede the union in the struct layout for `get`
+     * - Writing a variant also writes its tag value into the sibling field
+     * @example
+     * defineUnion({ circle: Circle, rect: Rect }).setTag("kind", { circle: 1, rect: 2 })
+     */
+    setTag(key: StructKey, values: { [K in keyof T]: number | bigint | string }): UnionDefinition<T, OneOf<T>>;
+    /**
+     * Selects the active variant by a function
+     * @param selector - Function returning the variant key
+     * @returns Current union definition as discriminated union
+     * @remarks Tags are not written automatically
+     */
+    setTag(selector: UnionSelector<T>): UnionDefinition<T, OneOf<T>>;
+    /**
+     * Freezes the type definition to prevent modification
+     * @returns Immutable version of the type definition
+     */
+    freeze(): UnionDefinitionFreezed<T, V>;
+}
+
+/**
+ * Creates configurable union type definition
+ * @param options - Variant configuration
+ * @param name - Optional union name
+ * @returns Plain union definition, use `setTag` for discriminated unions
+ * @template T - Union shape
+ * @example
+ * const Misc = defineUnion({
+ *     PhysicalAddress: types.DWORD,
+ *     VirtualSize: types.DWORD
+ * }).freeze();
+ * const Shape = defineUnion({ circle: Circle, rect: Rect })
+ *     .setTag("kind", { circle: 1, rect: 2 })
+ *     .freeze();
+ */
+export function defineUnion<T extends Record<StructKey, any>>(options: UnionDefinitionOptions<T>, name?: string): UnionDefinition<T> {
+    let _name: string | undefined;
+    let _keys: ReadonlyArray<StructKey> = new Array();
+    let _variants: ReadonlyMap<StructKey, TypeDefinition<any>> = new Map();
+    let _tagKey: StructKey | undefined;
+    let _tagValues: ReadonlyMap<StructKey, number | bigint | string> = new Map();
+    let _selector: UnionSelector<any> | undefined;
+    const setName: UnionDefinition<T>["setName"] = (name) => {
+        _name = name;
+        return typeDefinition;
+    };
+    const setVariants: UnionDefinition<T>["setVariants"] = (options) => {
+        const keys = Reflect.ownKeys(options);
+        _keys = keys;
+        _variants = new Map(keys.map(key => [key, options[key]]));
+        return typeDefinition as any;
+    };
+    const setTag = ((param0: StructKey | UnionSelector<T> | undefined, values?: Record<StructKey, number | bigint | string>) => {
+        if (typeof param0 === "function") {
+            _selector = param0;
+            _tagKey = void 0;
+            _tagValues = new Map();
+        }
+        else {
+            _selector = void 0;
+            _tagKey = param0;
+            _tagValues = new Map(values ? Reflect.ownKeys(values).map(key => [key, values[key]]) : []);
+        }
+        return typeDefinition as any;
+    }) as UnionDefinition<T>["setTag"];
+    const freeze: UnionDefinition<T>["freeze"] = () => {
+        const newDefinition = clone();
+        return Object.freeze({
+            isTypeDefinition: TypeDefinitionSymbol,
+            isUnionDefinition: UnionDefinitionSymbol,
+            name: newDefinition.name,
+            size: newDefinition.size,
+            align: newDefinition.align,
+            dynamic: newDefinition.dynamic,
+            keys: Object.freeze(newDefinition.keys),
+            variants: Object.freeze(newDefinition.variants),
+            discriminated: newDefinition.discriminated,
+            tagKey: newDefinition.tagKey,
+            tagValues: Object.freeze(newDefinition.tagValues),
+            variantOf: newDefinition.variantOf,
+            getter: newDefinition.getter,
+            setter: newDefinition.setter,
+            reactive: newDefinition.reactive,
+            measure: newDefinition.measure,
+            clone: newDefinition.clone
+        });
+    };
+    const clone: UnionDefinition<T>["clone"] = (name) => {
+        const options = Object.fromEntries(_keys.map(key => [key, _variants.get(key)])) as UnionDefinitionOptions<T>;
+        const definition = defineUnion<T>(options, name ?? _name);
+        if (_selector) {
+            definition.setTag(_selector);
+        }
+        else if (_tagKey !== void 0) {
+            definition.setTag(_tagKey, Object.fromEntries(_tagValues) as any);
+        }
+        return definition;
+    };
+    // Variant selection
+    const sameTag = (a: unknown, b: unknown): boolean => a === b || String(a) === String(b);
+    const variantOf: UnionDefinition<T>["variantOf"] = (parent, context) => {
+        if (_selector) {
+            return _selector(parent, context) as StructKey | undefined;
+        }
+        if (_tagKey === void 0) {
+            return void 0;
+        }
+        if (typeof parent !== "object" || parent === null) {
+            throw new Error(`[${typeDefinition.name}] Discriminated union must be a property of a struct.`);
+        }
+        const tag = parent[_tagKey];
+        for (const [key, value] of _tagValues) {
+            if (sameTag(tag, value)) {
+                return key;
+            }
+        }
+        return void 0;
+    };
+    /** Variant key of a value about to be written */
+    const variantOfValue = (value: any): StructKey | undefined => {
+        return _keys.find(key => typeof value === "object" && value !== null && key in value && value[key] !== void 0);
+    };
+    /** Writes the tag of a variant into the enclosing struct */
+    const writeTag = (context: OperationContext, key: StructKey): void => {
+        if (_tagKey === void 0 || !_tagValues.has(key)) {
+            return;
+        }
+        const tag = _tagValues.get(key);
+        if (context.setSibling) {
+            context.setSibling(_tagKey, tag);
+        }
+    };
+    const measure: OperationMeasure<any> = (context, value) => {
+        const key = value !== void 0 ? variantOfValue(value) : variantOf(context.parent, context);
+        const variant = key === void 0 ? void 0 : _variants.get(key);
+        if (!variant) {
+            return typeDefinition.size;
+        }
+        return value !== void 0 ? instanceSize(variant, context, value[key!]) : instanceSize(variant, context);
+    };
+    const getter: OperationGetter<any> = (context) => {
+        const { view, offset, littleEndian, safe, path } = context;
+        const readVariant = (key: StructKey) => _variants.get(key)!.getter({
+            view,
+            offset,
+            littleEndian,
+            safe,
+            path: isPathTracked(safe) ? joinPath(path, key) : void 0
+        });
+        const union: Record<StructKey, any> = {};
+        if (_tagKey === void 0 && !_selector) {
+            for (const key of _keys) {
+                union[key] = readVariant(key);
+            }
+            return union;
+        }
+        // Unknown tags give an empty object
+        const key = variantOf(context.parent, context);
+        if (key !== void 0 && _variants.has(key)) {
+            union[key] = readVariant(key);
+        }
+        return union;
+    };
+    const setter: OperationSetter<any> = (context, value) => {
+        const { view, offset, littleEndian, safe, path } = context;
+        const writeVariant = (key: StructKey) => _variants.get(key)!.setter({
+            view,
+            offset,
+            littleEndian,
+            safe,
+            path: isPathTracked(safe) ? joinPath(path, key) : void 0
+        }, value[key]);
+        if (typeof value !== "object" || value === null) {
+            throw new TypeError(`[${path ?? typeDefinition.name}] Value ${value === null ? "null" : typeof value} is not an object of variants.`);
+        }
+        if (_tagKey === void 0 && !_selector) {
+            // Later variants overwrite earlier ones
+            for (const key of _keys) {
+                if (key in value) {
+                    writeVariant(key);
+                }
+            }
+            return;
+        }
+        const key = variantOfValue(value);
+        if (key === void 0) {
+            throw new Error(`[${typeDefinition.name}] Value does not contain any variant.`);
+        }
+        writeTag(context, key);
+        writeVariant(key);
+    };
+    const reactive: OperationReactive<any> = ({ view, littleEndian, safe, path, parent, localOffset, baseOffset, cacheGetter }) => {
+        const discriminated = _tagKey !== void 0 || _selector !== void 0;
+        const context = (): OperationContext => ({
+            view: view(),
+            offset: baseOffset() + localOffset,
+            littleEndian,
+            safe,
+            path,
+            parent
+        });
+        const activeKeys = (): ReadonlyArray<StructKey> => {
+            if (!discriminated) {
+                return _keys;
+            }
+            const key = variantOf(parent, context());
+            return key !== void 0 && _variants.has(key) ? [key] : [];
+        };
+        const proxyToRaw = () => typeDefinition.getter(context());
+        const proxyToSource = (key?: StructKey | number): ReactiveSource | undefined => {
+            if (key === void 0) {
+                return {
+                    view,
+                    type: typeDefinition,
+                    littleEndian,
+                    path: path ?? typeDefinition.name,
+                    offset: () => baseOffset() + localOffset
+                };
+            }
+            const variant = _variants.get(key as StructKey);
+            if (!variant) {
+                return void 0;
+            }
+            return {
+                view,
+                type: variant,
+                littleEndian,
+                path: joinPath(path, key as StructKey),
+                offset: () => baseOffset() + localOffset
+            };
+        };
+        const internal = new Map<string | symbol, any>([
+            [OperationRawSymbol, proxyToRaw],
+            [OperationSourceSymbol, proxyToSource],
+            ["toJSON", () => toJSONValue(proxyToRaw())]
+        ]);
+        // Variant getter
+        const getterMap = new Map<StructKey, () => any>();
+        const get: ProxyHandler<any>["get"] = (target, key) => {
+            if (!_variants.has(key)) {
+                return internal.get(key);
+            }
+            if (!activeKeys().includes(key)) {
+                return void 0;
+            }
+            let getter = getterMap.get(key);
+            if (getter) {
+                return getter();
+            }
+            const variantContext: OperationContextDynamic = {
+                view,
+                littleEndian,
+                safe,
+                path: joinPath(path, key),
+                localOffset,
+                baseOffset,
+                cacheGetter: getter => getterMap.set(key, getter)
+            };
+            getter = () => _variants.get(key)!.reactive(variantContext);
+            getterMap.set(key, getter);
+            return getter();
+        };
+        // Variant setter, switches the tag
+        const set: ProxyHandler<any>["set"] = (target, key, value) => {
+            const variant = _variants.get(key);
+            if (!variant) {
+                return false;
+            }
+            if (_tagKey !== void 0 && _tagValues.has(key) && typeof parent === "object" && parent !== null) {
+                parent[_tagKey] = _tagValues.get(key);
+            }
+            writeTracked(variant, {
+                view: view(),
+                offset: baseOffset() + localOffset,
+                littleEndian,
+                safe,
+                path: joinPath(path, key)
+            }, value);
+            return true;
+        };
+        const has: ProxyHandler<any>["has"] = (target, key) => {
+            return activeKeys().includes(key);
+        };
+        const ownKeys: ProxyHandler<any>["ownKeys"] = () => {
+            return activeKeys() as Array<StructKey>;
+        };
+        const getOwnPropertyDescriptor: ProxyHandler<any>["getOwnPropertyDescriptor"] = (target, key) => {
+            if (!activeKeys().includes(key)) {
+                return void 0;
+            }
+            return fieldDescriptor(get(target, key, proxy));
+        };
+        const defineProperty: ProxyHandler<any>["defineProperty"] = () => false;
+        const deleteProperty: ProxyHandler<any>["deleteProperty"] = () => false;
+        const proxy: any = new Proxy(reactiveTarget({}, proxyToRaw), {
+            get,
+            set,
+            has,
+            ownKeys,
+            getOwnPropertyDescriptor,
+            defineProperty,
+            deleteProperty
+        });
+        cacheGetter(() => proxy);
+        return proxy;
+    };
+    const typeDefinition: UnionDefinition<T> = {
+        isTypeDefinition: TypeDefinitionSymbol,
+        isUnionDefinition: UnionDefinitionSymbol,
+        get name() {
+            return _name ?? `union{${_keys.length}}`;
+        },
+        get size() {
+            let size = 0;
+            let align = 1;
+            for (const variant of _variants.values()) {
+                size = Math.max(size, variant.size);
+                align = Math.max(align, variant.align);
+            }
+            // End padding
+            return size + (align - (size % align)) % align;
+        },
+        get align() {
+            let align = 1;
+            for (const variant of _variants.values()) {
+                align = Math.max(align, variant.align);
+            }
+            return align;
+        },
+        get dynamic() {
+            for (const variant of _variants.values()) {
+                if (variant.dynamic) {
+                    return true;
+                }
+            }
+            return false;
+        },
+        get keys() {
+            return _keys;
+        },
+        get variants() {
+            return _variants;
+        },
+        get discriminated() {
+            return _tagKey !== void 0 || _selector !== void 0;
+        },
+        get tagKey() {
+            return _tagKey;
+        },
+        get tagValues() {
+            return _tagValues;
+        },
+        variantOf,
+        getter,
+        setter,
+        reactive,
+        measure,
+        setName,
+        setVariants,
+        setTag,
+        freeze,
+        clone
+    };
+    setVariants(options);
+    setName(name);
+    return typeDefinition;
+}
+
+/**
+ * Type guard for union definitions
+ * @param test - Value to check
+ * @returns Whether the value is a union definition
+ */
+export function isUnionDefinition(test: any): test is UnionDefinitionFreezed<any, any> {
+    if (typeof test !== "object" || test === null) {
+        return false;
+    }
+    if (test.isUnionDefinition === UnionDefinitionSymbol) {
+        return true;
+    }
+    return false;
+}
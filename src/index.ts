@@ -1,7 +1,20 @@
 export * from "./core";
+export * from "./memory";
 export * from "./define-primitive";
 export * from "./define-struct";
 export * from "./define-array";
 export * from "./define-string";
+export * from "./define-pointer";
+export * from "./define-union";
+export * from "./define-enum";
+export * from "./define-bitfield";
+export * from "./define-flags";
+export * from "./define-transform";
+export * from "./define-const";
+export * from "./watch";
+export * from "./patch";
+export * from "./binary-reader";
+export * from "./binary-writer";
+export * from "./compile";
 export * from "./types";
 export * as types from "./types";
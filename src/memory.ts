@@ -0,0 +1,61 @@
+import type { ValueOrGetter } from "./core";
+
+/**
+ * Provides the current DataView of a memory that may be replaced
+ * @remarks Typical use: `WebAssembly.Memory`, whose buffer is detached by `grow()`
+ */
+export interface MemoryBinding {
+    /** Current DataView of the memory */
+    readonly view: DataView;
+}
+
+/** DataView, DataView getter or memory binding accepted by reactive operations */
+export type ViewSource = ValueOrGetter<DataView> | MemoryBinding;
+
+/**
+ * Normalizes a view source to a DataView getter
+ * @param source - DataView, DataView getter or memory binding
+ * @returns DataView getter resolving the current DataView
+ */
+export function toViewGetter(source: ViewSource): () => DataView {
+    if (typeof source === "function") {
+        return source;
+    }
+    if (source instanceof DataView) {
+        return () => source;
+    }
+    return () => source.view;
+}
+
+/**
+ * Memory whose buffer may be replaced, structurally matches `WebAssembly.Memory`
+ */
+export interface GrowableMemory {
+    /** Current buffer of the memory */
+    readonly buffer: ArrayBuffer | SharedArrayBuffer;
+}
+
+/**
+ * Binds a WebAssembly memory
+ * @param memory - WebAssembly memory instance (or any {@link GrowableMemory})
+ * @returns Memory binding rebuilding its DataView after `memory.grow()`
+ * @remarks The DataView is rebuilt when `memory.buffer.byteLength` changes
+ * @example
+ * const memory = bindMemory(instance.exports.memory);
+ * const player = reactive(memory, PlayerStruct, 0x100);
+ * instance.exports.memory.grow(1);
+ * player.health = 80; // Still writes to the current buffer
+ */
+export function bindMemory(memory: GrowableMemory): MemoryBinding {
+    let _view = new DataView(memory.buffer);
+    return {
+        get view() {
+            const buffer = memory.buffer;
+            // A detached buffer reports byteLength 0
+            if (_view.buffer.byteLength !== buffer.byteLength) {
+                _view = new DataView(buffer);
+            }
+            return _view;
+        }
+    };
+}
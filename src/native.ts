@@ -0,0 +1,184 @@
+import * as types from "./types";
+import type { TypeDefinition } from "./core";
+
+/** DataView accessor name shared by `get*` and `set*` methods */
+export type NativeMethod = "Int8" | "Int16" | "Int32" | "BigInt64"
+    | "Uint8" | "Uint16" | "Uint32" | "BigUint64"
+    | "Float16" | "Float32" | "Float64";
+
+/** DataView accessor information of a built-in primitive type */
+export interface NativeAccessor {
+    /** Accessor name, e.g. `Int16` for `getInt16`/`setInt16` */
+    method: NativeMethod;
+    /** Whether the accessor takes a littleEndian parameter */
+    endian: boolean;
+}
+
+/** Built-in primitive types (including aliases) mapped to DataView accessors */
+const nativeAccessors = new Map<TypeDefinition<any>, NativeAccessor>();
+const register = (method: NativeMethod, endian: boolean, ...list: Array<TypeDefinition<any>>) => {
+    for (const type of list) {
+        nativeAccessors.set(type, { method, endian });
+    }
+};
+register("Int8", false, types.INT_8);
+register("Int16", true, types.INT_16, types.SHORT);
+register("Int32", true, types.INT_32, types.INT);
+register("BigInt64", true, types.INT_64, types.LONG);
+register("Uint8", false, types.UINT_8, types.BYTE);
+register("Uint16", true, types.UINT_16, types.USHORT, types.WORD);
+register("Uint32", true, types.UINT_32, types.UINT, types.DWORD);
+register("BigUint64", true, types.UINT_64, types.ULONG);
+register("Float16", true, types.FLOAT_16);
+register("Float32", true, types.FLOAT_32, types.FLOAT);
+register("Float64", true, types.FLOAT_64, types.DOUBLE);
+
+/**
+ * Looks up the DataView accessor of a built-in primitive type
+ * @param type - Type definition
+ * @returns Accessor information, `undefined` for other types (including `CHAR`)
+ */
+export function getNativeAccessor(type: TypeDefinition<any>): NativeAccessor | undefined {
+    return nativeAccessors.get(type);
+}
+
+/** Largest value of built-in integer types, capped at `Number.MAX_SAFE_INTEGER` */
+const integerMax = new Map<TypeDefinition<any>, number>([[types.ULEB128, Number.MAX_SAFE_INTEGER]]);
+const integerMaxOf: Partial<Record<NativeMethod, number>> = {
+    Int8: 127,
+    Int16: 32767,
+    Int32: 2147483647,
+    BigInt64: Number.MAX_SAFE_INTEGER,
+    Uint8: 255,
+    Uint16: 65535,
+    Uint32: 4294967295,
+    BigUint64: Number.MAX_SAFE_INTEGER
+};
+for (const [type, { method }] of nativeAccessors) {
+    const max = integerMaxOf[method];
+    if (max !== void 0) {
+        integerMax.set(type, max);
+    }
+}
+
+/**
+ * Looks up the largest value of a built-in integer type
+ * @param type - Type definition
+ * @returns Largest value, `undefined` for other types
+ */
+export function getIntegerMax(type: TypeDefinition<any>): number | undefined {
+    return integerMax.get(type);
+}
+
+/**
+ * Converts the unsigned bits of an integer to the value written by its type
+ * @param type - Integer type definition
+ * @param raw - Unsigned form, e.g. after bit operations
+ * @returns Signed form for signed built-in types, `bigint` for 64-bit types
+ * @remarks The result always lies in the type range, writes must not depend on the validation policy
+ */
+export function fromUnsigned(type: TypeDefinition<any>, raw: bigint): number | bigint {
+    const method = getNativeAccessor(type)?.method;
+    const bits = method?.startsWith("Int") || method === "BigInt64" ? BigInt.asIntN(type.size * 8, raw) : raw;
+    return method?.startsWith("Big") ? bits : Number(bits);
+}
+
+/** Constructor of a TypedArray class */
+export interface TypedArrayConstructor {
+    readonly BYTES_PER_ELEMENT: number;
+    new(length: number): any;
+    new(buffer: ArrayBufferLike, byteOffset: number, length: number): any;
+}
+
+/** TypedArray classes of DataView accessors, `Float16Array` only where the runtime provides it */
+const typedArrays: Partial<Record<NativeMethod, TypedArrayConstructor>> = {
+    Int8: Int8Array,
+    Int16: Int16Array,
+    Int32: Int32Array,
+    BigInt64: BigInt64Array,
+    Uint8: Uint8Array,
+    Uint16: Uint16Array,
+    Uint32: Uint32Array,
+    BigUint64: BigUint64Array,
+    Float16: (globalThis as any).Float16Array,
+    Float32: Float32Array,
+    Float64: Float64Array
+};
+
+/**
+ * Looks up the TypedArray class of a DataView accessor
+ * @param method - Accessor name
+ * @returns TypedArray class, `undefined` if the runtime lacks it
+ */
+export function getTypedArrayConstructor(method: NativeMethod): TypedArrayConstructor | undefined {
+    return typedArrays[method];
+}
+
+/** Whether TypedArrays use little-endian byte order on this platform */
+export const platformLittleEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+/** Reverses the bytes of every element in place */
+function swapBytes(bytes: Uint8Array, size: number): void {
+    for (let start = 0; start < bytes.length; start += size) {
+        for (let low = start, high = start + size - 1; low < high; low++, high--) {
+            const byte = bytes[low];
+            bytes[low] = bytes[high];
+            bytes[high] = byte;
+        }
+    }
+}
+
+/**
+ * Copies consecutive elements into a new TypedArray
+ * @param view - Source DataView
+ * @param method - Accessor name of the elements
+ * @param offset - Starting offset in bytes
+ * @param length - Number of elements
+ * @param littleEndian - Byte order of the elements
+ * @returns TypedArray in platform byte order, `undefined` if the runtime lacks the TypedArray class or the range exceeds the DataView
+ */
+export function readNative(view: DataView, method: NativeMethod, offset: number, length: number, littleEndian?: boolean): any {
+    const TypedArray = typedArrays[method];
+    if (!TypedArray) {
+        return void 0;
+    }
+    const size = TypedArray.BYTES_PER_ELEMENT;
+    const byteLength = size * length;
+    if (!(offset >= 0 && offset + byteLength <= view.byteLength)) {
+        return void 0;
+    }
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, byteLength).slice();
+    if (size > 1 && (littleEndian === true) !== platformLittleEndian) {
+        swapBytes(bytes, size);
+    }
+    return new TypedArray(bytes.buffer, 0, length);
+}
+
+/**
+ * Writes consecutive elements through a TypedArray copy
+ * @param view - Target DataView
+ * @param method - Accessor name of the elements
+ * @param offset - Starting offset in bytes
+ * @param values - Values to write, converted as TypedArray assignments do
+ * @param littleEndian - Byte order of the elements
+ * @returns Whether the values were written, `false` if the runtime lacks the TypedArray class or the range exceeds the DataView
+ */
+export function writeNative(view: DataView, method: NativeMethod, offset: number, values: ArrayLike<unknown>, littleEndian?: boolean): boolean {
+    const TypedArray = typedArrays[method];
+    if (!TypedArray) {
+        return false;
+    }
+    const size = TypedArray.BYTES_PER_ELEMENT;
+    const byteLength = size * values.length;
+    if (!(offset >= 0 && offset + byteLength <= view.byteLength)) {
+        return false;
+    }
+    const array = new TypedArray(values.length);
+    array.set(values);
+    const bytes = new Uint8Array(array.buffer);
+    if (size > 1 && (littleEndian === true) !== platformLittleEndian) {
+        swapBytes(bytes, size);
+    }
+    new Uint8Array(view.buffer, view.byteOffset + offset, byteLength).set(bytes);
+    return true;
+}
@@ -0,0 +1,88 @@
+import { reactive, set, joinPath } from "./core";
+import { isStructDefinition } from "./define-struct";
+import { isArrayDefinition } from "./define-array";
+import type { TypeDefinition, WriteValue } from "./core";
+
+/**
+ * Recursive partial value accepted by {@link patch}
+ * @template T - Value type
+ * @remarks Struct keys are optional, arrays accept sparse arrays or objects keyed by index
+ */
+export type DeepPartial<T> = T extends (...args: Array<any>) => any ? T
+    : T extends ReadonlyArray<infer E> ? { readonly [index: number]: DeepPartial<E> | undefined }
+    : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/** Whether the value is merged into the instance instead of replacing it */
+const isMergeable = (type: TypeDefinition<any>, value: unknown): value is object => {
+    return (isStructDefinition(type) || isArrayDefinition(type)) && typeof value === "object" && value !== null;
+};
+
+/** Writes the provided members of `value` through the reactive proxy `target` */
+const merge = (type: TypeDefinition<any>, target: any, value: any, path: string): void => {
+    if (isStructDefinition(type)) {
+        for (const key of Reflect.ownKeys(value)) {
+            const member = value[key];
+            if (member === void 0) {
+                continue;
+            }
+            const property = type.properties.get(key);
+            if (!property) {
+                const keyString = typeof key === "symbol" ? `Symbol(${key.description || ""})` : key;
+                throw new Error(`[${path}] There is no attribute named ${keyString}.`);
+            }
+            if (isMergeable(property.type, member)) {
+                merge(property.type, target[key], member, joinPath(path, key));
+            }
+            else {
+                target[key] = member;
+            }
+        }
+        return;
+    }
+    if (isArrayDefinition(type)) {
+        const length: number = target.length;
+        for (const key of Object.keys(value)) {
+            const index = Number(key);
+            const member = value[key];
+            if (!Number.isInteger(index) || member === void 0) {
+                continue;
+            }
+            if (index < 0 || index >= length) {
+                throw new RangeError(`[${path}] Index ${index} is out of range 0..${length - 1}.`);
+            }
+            if (isMergeable(type.element, member)) {
+                merge(type.element, target[index], member, joinPath(path, index));
+            }
+            else {
+                target[index] = member;
+            }
+        }
+    }
+};
+
+/**
+ * Writes only the provided parts of a value
+ * @param view - Target DataView
+ * @param type - Type definition
+ * @param offset - Write offset in bytes
+ * @param value - Partial value, nested structs and arrays are merged
+ * @param littleEndian - Byte order (default: big-endian)
+ * @remarks
+ * - Bytes of omitted struct keys and array indices stay untouched
+ * - Undefined members are skipped, other values replace the field
+ * - Writes go through reactive proxies, dynamic layouts, union tags and watchers behave like reactive assignments
+ * @throws {Error} If a struct key does not exist
+ * @throws {RangeError} If an array index is out of range
+ * @example
+ * patch(view, IMAGE_NT_HEADERS, 0x80, {
+ *     FileHeader: { NumberOfSections: 4 },
+ *     OptionalHeader: { DataDirectory: { 1: { Size: 0x28 } } }
+ * }, true);
+ */
+export function patch<T>(view: DataView, type: TypeDefinition<T>, offset: number, value: DeepPartial<WriteValue<T>>, littleEndian?: boolean): void {
+    if (!isMergeable(type, value)) {
+        return set(view, type, offset, value as WriteValue<T>, littleEndian);
+    }
+    merge(type, reactive(view, type, offset, littleEndian), value, type.name);
+}
@@ -1,4 +1,5 @@
 import { definePrimitive } from "./define-primitive";
+import { validateInteger, validateFloat } from "./core";
 
 export const UNKNOWN = definePrimitive<unknown>("UNKNOWN").freeze();
 
@@ -15,9 +16,11 @@ export const UNKNOWN = definePrimitive<unknown>("UNKNOWN").freeze();
 export const INT_8 = definePrimitive<number>("INT_8")
     .setSize(1)
     .setGetter(({ view, offset }) => view.getInt8(offset))
-    .setSetter(({ view, offset }, value) => view.setInt8(offset, value))
+    .setSetter(function ({ view, offset, path }, value) {
+        view.setInt8(offset, validateInteger(this, path, value, -128, 127));
+    })
     .setReactive(({ view, localOffset, baseOffset, cacheGetter }) => {
-        const getter = () => view.getInt8(localOffset + baseOffset());
+        const getter = () => view().getInt8(localOffset + baseOffset());
         cacheGetter(getter);
         return getter();
     })
@@ -35,9 +38,11 @@ export const INT_8 = definePrimitive<number>("INT_8")
 export const INT_16 = definePrimitive<number>("INT_16")
     .setSize(2)
     .setGetter(({ view, offset, littleEndian }) => view.getInt16(offset, littleEndian))
-    .setSetter(({ view, offset, littleEndian }, value) => view.setInt16(offset, value, littleEndian))
+    .setSetter(function ({ view, offset, littleEndian, path }, value) {
+        view.setInt16(offset, validateInteger(this, path, value, -32768, 32767), littleEndian);
+    })
     .setReactive(({ view, littleEndian, localOffset, baseOffset, cacheGetter }) => {
-        const getter = () => view.getInt16(localOffset + baseOffset(), littleEndian);
+        const getter = () => view().getInt16(localOffset + baseOffset(), littleEndian);
         cacheGetter(getter);
         return getter();
     })
@@ -58,9 +63,11 @@ export const SHORT = INT_16.clone("SHORT").freeze();
 export const INT_32 = definePrimitive<number>("INT_32")
     .setSize(4)
     .setGetter(({ view, offset, littleEndian }) => view.getInt32(offset, littleEndian))
-    .setSetter(({ view, offset, littleEndian }, value) => view.setInt32(offset, value, littleEndian))
+    .setSetter(function ({ view, offset, littleEndian, path }, value) {
+        view.setInt32(offset, validateInteger(this, path, value, -2147483648, 2147483647), littleEndian);
+    })
     .setReactive(({ view, littleEndian, localOffset, baseOffset, cacheGetter }) => {
-        const getter = () => view.getInt32(localOffset + baseOffset(), littleEndian);
+        const getter = () => view().getInt32(localOffset + baseOffset(), littleEndian);
         cacheGetter(getter);
         return getter();
     })
@@ -82,9 +89,11 @@ export const INT = INT_32.clone("INT").freeze();
 export const INT_64 = definePrimitive<bigint>("INT_64")
     .setSize(8)
     .setGetter(({ view, offset, littleEndian }) => view.getBigInt64(offset, littleEndian))
-    .setSetter(({ view, offset, littleEndian }, value) => view.setBigInt64(offset, value, littleEndian))
+    .setSetter(function ({ view, offset, littleEndian, path }, value) {
+        view.setBigInt64(offset, validateInteger(this, path, value, -(2n ** 63n), 2n ** 63n - 1n), littleEndian);
+    })
     .setReactive(({ view, littleEndian, localOffset, baseOffset, cacheGetter }) => {
-        const getter = () => view.getBigInt64(localOffset + baseOffset(), littleEndian);
+        const getter = () => view().getBigInt64(localOffset + baseOffset(), littleEndian);
         cacheGetter(getter);
         return getter();
     })
@@ -107,9 +116,11 @@ export const LONG = INT_64.clone("LONG").freeze();
 export const UINT_8 = definePrimitive<number>("UINT_8")
     .setSize(1)
     .setGetter(({ view, offset }) => view.getUint8(offset))
-    .setSetter(({ view, offset }, value) => view.setUint8(offset, value))
+    .setSetter(function ({ view, offset, path }, value) {
+        view.setUint8(offset, validateInteger(this, path, value, 0, 255));
+    })
     .setReactive(({ view, localOffset, baseOffset, cacheGetter }) => {
-        const getter = () => view.getUint8(localOffset + baseOffset());
+        const getter = () => view().getUint8(localOffset + baseOffset());
         cacheGetter(getter);
         return getter();
     })
@@ -125,14 +136,16 @@ export const BYTE = UINT_8.clone("BYTE").freeze();
  * - Size: 1 byte
  * - Reads/writes a single character from/to a byte
  * - Uses first character of input string only
- * - No input validation!!!
+ * - Character codes above 255 follow the validation policy (see {@link setValidationPolicy})
  */
 export const CHAR = definePrimitive<string>("CHAR")
     .setSize(1)
     .setGetter(({ view, offset }) => String.fromCharCode(view.getUint8(offset)))
-    .setSetter(({ view, offset }, value) => view.setUint8(offset, value.charCodeAt(0)))
+    .setSetter(function ({ view, offset, path }, value) {
+        view.setUint8(offset, validateInteger(this, path, value.charCodeAt(0), 0, 255));
+    })
     .setReactive(({ view, localOffset, baseOffset, cacheGetter }) => {
-        const getter = () => String.fromCharCode(view.getUint8(localOffset + baseOffset()));
+        const getter = () => String.fromCharCode(view().getUint8(localOffset + baseOffset()));
         cacheGetter(getter);
         return getter();
     })
@@ -150,9 +163,11 @@ export const CHAR = definePrimitive<string>("CHAR")
 export const UINT_16 = definePrimitive<number>("UINT_16")
     .setSize(2)
     .setGetter(({ view, offset, littleEndian }) => view.getUint16(offset, littleEndian))
-    .setSetter(({ view, offset, littleEndian }, value) => view.setUint16(offset, value, littleEndian))
+    .setSetter(function ({ view, offset, littleEndian, path }, value) {
+        view.setUint16(offset, validateInteger(this, path, value, 0, 65535), littleEndian);
+    })
     .setReactive(({ view, littleEndian, localOffset, baseOffset, cacheGetter }) => {
-        const getter = () => view.getUint16(localOffset + baseOffset(), littleEndian);
+        const getter = () => view().getUint16(localOffset + baseOffset(), littleEndian);
         cacheGetter(getter);
         return getter();
     })
@@ -176,9 +191,11 @@ export const WORD = UINT_16.clone("WORD").freeze();
 export const UINT_32 = definePrimitive<number>("UINT_32")
     .setSize(4)
     .setGetter(({ view, offset, littleEndian }) => view.getUint32(offset, littleEndian))
-    .setSetter(({ view, offset, littleEndian }, value) => view.setUint32(offset, value, littleEndian))
+    .setSetter(function ({ view, offset, littleEndian, path }, value) {
+        view.setUint32(offset, validateInteger(this, path, value, 0, 4294967295), littleEndian);
+    })
     .setReactive(({ view, littleEndian, localOffset, baseOffset, cacheGetter }) => {
-        const getter = () => view.getUint32(localOffset + baseOffset(), littleEndian);
+        const getter = () => view().getUint32(localOffset + baseOffset(), littleEndian);
         cacheGetter(getter);
         return getter();
     })
@@ -203,9 +220,11 @@ export const DWORD = UINT_32.clone("DWORD").freeze();
 export const UINT_64 = definePrimitive<bigint>("UINT_64")
     .setSize(8)
     .setGetter(({ view, offset, littleEndian }) => view.getBigUint64(offset, littleEndian))
-    .setSetter(({ view, offset, littleEndian }, value) => view.setBigUint64(offset, value, littleEndian))
+    .setSetter(function ({ view, offset, littleEndian, path }, value) {
+        view.setBigUint64(offset, validateInteger(this, path, value, 0n, 2n ** 64n - 1n), littleEndian);
+    })
     .setReactive(({ view, littleEndian, localOffset, baseOffset, cacheGetter }) => {
-        const getter = () => view.getBigUint64(localOffset + baseOffset(), littleEndian);
+        const getter = () => view().getBigUint64(localOffset + baseOffset(), littleEndian);
         cacheGetter(getter);
         return getter();
     })
@@ -229,9 +248,11 @@ export const ULONG = UINT_64.clone("ULONG").freeze();
 export const FLOAT_16 = definePrimitive<number>("FLOAT_16")
     .setSize(2)
     .setGetter(({ view, offset, littleEndian }) => view.getFloat16(offset, littleEndian))
-    .setSetter(({ view, offset, littleEndian }, value) => view.setFloat16(offset, value, littleEndian))
+    .setSetter(function ({ view, offset, littleEndian, path }, value) {
+        view.setFloat16(offset, validateFloat(this, path, value, 65504), littleEndian);
+    })
     .setReactive(({ view, littleEndian, localOffset, baseOffset, cacheGetter }) => {
-        const getter = () => view.getFloat16(localOffset + baseOffset(), littleEndian);
+        const getter = () => view().getFloat16(localOffset + baseOffset(), littleEndian);
         cacheGetter(getter);
         return getter();
     })
@@ -250,9 +271,11 @@ export const FLOAT_16 = definePrimitive<number>("FLOAT_16")
 export const FLOAT_32 = definePrimitive<number>("FLOAT_32")
     .setSize(4)
     .setGetter(({ view, offset, littleEndian }) => view.getFloat32(offset, littleEndian))
-    .setSetter(({ view, offset, littleEndian }, value) => view.setFloat32(offset, value, littleEndian))
+    .setSetter(function ({ view, offset, littleEndian, path }, value) {
+        view.setFloat32(offset, validateFloat(this, path, value, 3.4028234663852886e38), littleEndian);
+    })
     .setReactive(({ view, littleEndian, localOffset, baseOffset, cacheGetter }) => {
-        const getter = () => view.getFloat32(localOffset + baseOffset(), littleEndian);
+        const getter = () => view().getFloat32(localOffset + baseOffset(), littleEndian);
         cacheGetter(getter);
         return getter();
     })
@@ -274,9 +297,11 @@ export const FLOAT = FLOAT_32.clone("FLOAT").freeze();
 export const FLOAT_64 = definePrimitive<number>("FLOAT_64")
     .setSize(8)
     .setGetter(({ view, offset, littleEndian }) => view.getFloat64(offset, littleEndian))
-    .setSetter(({ view, offset, littleEndian }, value) => view.setFloat64(offset, value, littleEndian))
+    .setSetter(function ({ view, offset, littleEndian, path }, value) {
+        view.setFloat64(offset, validateFloat(this, path, value, Number.MAX_VALUE), littleEndian);
+    })
     .setReactive(({ view, littleEndian, localOffset, baseOffset, cacheGetter }) => {
-        const getter = () => view.getFloat64(localOffset + baseOffset(), littleEndian);
+        const getter = () => view().getFloat64(localOffset + baseOffset(), littleEndian);
         cacheGetter(getter);
         return getter();
     })
@@ -284,3 +309,51 @@ export const FLOAT_64 = definePrimitive<number>("FLOAT_64")
 
 /** Alias for {@link FLOAT_64} */
 export const DOUBLE = FLOAT_64.clone("DOUBLE").freeze();
+
+////////// VARINT //////////
+
+/**
+ * Unsigned LEB128 variable-length integer type descriptor
+ * 
+ * @remarks
+ * - Size: 1 to 8 bytes, 7 bits per byte (`size` reports the minimum)
+ * - Range: 0 to 2^53 - 1
+ * - Dynamic: offsets of following data depend on the encoded length
+ * - Used by WebAssembly, DWARF and protobuf-like formats
+ */
+export const ULEB128 = definePrimitive<number>("ULEB128")
+    .setSize(1)
+    .setGetter(({ view, offset }) => {
+        let value = 0;
+        for (let index = 0; index < 8; index++) {
+            const byte = view.getUint8(offset + index);
+            value += (byte & 0x7F) * 2 ** (7 * index);
+            if (byte < 0x80) {
+                break;
+            }
+        }
+        return value;
+    })
+    .setSetter(function ({ view, offset, path }, value) {
+        value = validateInteger(this, path, value, 0, Number.MAX_SAFE_INTEGER);
+        let index = 0;
+        do {
+            const byte = value % 0x80;
+            value = Math.floor(value / 0x80);
+            view.setUint8(offset + index++, value > 0 ? byte | 0x80 : byte);
+        } while (value > 0);
+    })
+    .setMeasure(({ view, offset }, value) => {
+        let size = 1;
+        if (value !== void 0) {
+            for (; value >= 0x80; size++) {
+                value = Math.floor(value / 0x80);
+            }
+            return size;
+        }
+        while (size < 8 && view.getUint8(offset + size - 1) >= 0x80) {
+            size++;
+        }
+        return size;
+    })
+    .freeze();
@@ -0,0 +1,205 @@
+import { toSource, parsePath, instanceSize } from "./core";
+import type { TypeDefinition, OperationContext } from "./core";
+
+/** Byte range relative to a DataView */
+export interface ByteRange {
+    /** Byte offset of the range */
+    offset: number;
+    /** Byte size of the range */
+    size: number;
+}
+
+/**
+ * Information passed to watch/subscribe callbacks
+ * @template T - Type of the observed value
+ */
+export interface WriteEvent<T> {
+    /** Observed value before the write */
+    oldValue: T;
+    /** Observed value after the write */
+    newValue: T;
+    /** Field path of the write, e.g. `Header.DataDirectory[3].Size` */
+    path: string;
+    /** Written byte range, relative to the observed DataView */
+    range: ByteRange;
+}
+
+/** Callback fired after a write overlapping the observed region */
+export type WriteCallback<T> = (event: WriteEvent<T>) => void;
+
+/** Stops a watcher or subscription */
+export type WatchStopHandle = () => void;
+
+/** Registered observer of a memory region */
+interface Subscriber {
+    /**
+     * Resolves the current DataView, offset and byte size of the observed region
+     * @remarks Dynamic fields are measured before and after every write
+     */
+    resolve: () => { view: DataView, offset: number, size: number };
+    /**
+     * Reads the observed value
+     * @remarks When omitted, the written value is reported instead
+     */
+    read?: (view: DataView, offset: number) => any;
+    /** User callback */
+    callback: WriteCallback<any>;
+}
+
+/** All active observers */
+const subscribers = new Set<Subscriber>();
+
+/**
+ * Writes typed data through the type setter and notifies overlapping watchers
+ * @param type - Type definition
+ * @param context - Operation context of the write
+ * @param value - Value to encode
+ * @remarks
+ * - Used by `set`, `ref` and reactive proxies, custom reactive implementations should use it for writes
+ * - Observers are matched by the underlying ArrayBuffer, so aliased views are notified as well
+ * - Watchers moved or resized by the write are notified as well
+ * - Without any observers this is a plain `type.setter` call
+ */
+export function writeTracked<T>(type: TypeDefinition<T>, context: OperationContext, value: T): void {
+    if (subscribers.size === 0) {
+        return type.setter(context, value);
+    }
+    const { view, offset } = context;
+    // Dynamic types cover the bytes of the written instance
+    const size = instanceSize(type, context, value);
+    const start = view.byteOffset + offset;
+    const end = start + size;
+    const matched = new Array<{ subscriber: Subscriber, before: ByteRange, overlapped: boolean, oldValue: any }>();
+    for (const subscriber of subscribers) {
+        const resolved = subscriber.resolve();
+        if (resolved.view.buffer !== view.buffer) {
+            continue;
+        }
+        const subscriberStart = resolved.view.byteOffset + resolved.offset;
+        const overlapped = subscriberStart < end && start < subscriberStart + resolved.size;
+        // Watched fields may be moved or resized by writes to dynamic siblings
+        if (overlapped || subscriber.read) {
+            matched.push({
+                subscriber,
+                before: { offset: subscriberStart, size: resolved.size },
+                overlapped,
+                oldValue: subscriber.read?.(resolved.view, resolved.offset)
+            });
+        }
+    }
+    if (matched.length === 0) {
+        return type.setter(context, value);
+    }
+    const needWritten = matched.some(x => !x.subscriber.read);
+    const oldValue = needWritten ? type.getter(context) : void 0;
+    type.setter(context, value);
+    const newValue = needWritten ? type.getter(context) : void 0;
+    const path = context.path ?? type.name;
+    for (const item of matched) {
+        const { subscriber, before } = item;
+        // Offsets are resolved again, the layout may have changed
+        const resolved = subscriber.resolve();
+        const subscriberStart = resolved.view.byteOffset + resolved.offset;
+        if (!item.overlapped && subscriberStart === before.offset && resolved.size === before.size) {
+            continue;
+        }
+        subscriber.callback({
+            oldValue: subscriber.read ? item.oldValue : oldValue,
+            newValue: subscriber.read ? subscriber.read(resolved.view, resolved.offset) : newValue,
+            path,
+            range: {
+                offset: start - resolved.view.byteOffset,
+                size
+            }
+        });
+    }
+}
+
+/**
+ * Subscribes to writes overlapping a byte range of a DataView
+ * @param view - Observed DataView
+ * @param range - Observed byte range relative to the view
+ * @param callback - Fired with the written value before/after each overlapping write
+ * @returns Function stopping the subscription
+ * @remarks
+ * - Writes through any DataView sharing the same ArrayBuffer are reported
+ * - Only writes through `set`, `ref`, `toRef` and reactive proxies are tracked
+ * @example
+ * const stop = subscribe(view, { offset: 0, size: 16 }, ({ path, newValue }) => {
+ *     console.log(`${path} changed to`, newValue);
+ * });
+ */
+export function subscribe(view: DataView, range: ByteRange, callback: WriteCallback<any>): WatchStopHandle {
+    const subscriber: Subscriber = {
+        resolve: () => ({ view, offset: range.offset, size: range.size }),
+        callback
+    };
+    subscribers.add(subscriber);
+    return () => void subscribers.delete(subscriber);
+}
+
+/**
+ * Watches a field of a reactive object for writes
+ * @overload
+ * @param target - Reactive proxy or reference
+ * @param key - Property key of the target
+ * @param callback - Fired with the field value before/after each overlapping write
+ * @returns Function stopping the watcher
+ * @template T - Reactive object type
+ * @template K - Property key
+ */
+export function watch<T, K extends keyof T>(target: T, key: K, callback: WriteCallback<T[K]>): WatchStopHandle;
+/**
+ * Watches a nested field of a reactive object for writes
+ * @overload
+ * @param target - Reactive proxy or reference
+ * @param path - Field path relative to the target, e.g. `OptionalHeader.DataDirectory[1].Size`
+ * @param callback - Fired with the field value before/after each overlapping write
+ * @returns Function stopping the watcher
+ */
+export function watch(target: any, path: string, callback: WriteCallback<any>): WatchStopHandle;
+/**
+ * Watch implementation
+ * @param target - Reactive proxy or reference
+ * @param keyOrPath - Property key or field path
+ * @param callback - Watch callback
+ * @returns Function stopping the watcher
+ * @remarks
+ * - Writes through any reactive object, `set` or `ref` aliasing the field are reported
+ * - The watched region follows dynamic offsets of the target
+ * @example
+ * const stop = watch(header, "OptionalHeader.DataDirectory[1].Size", ({ oldValue, newValue }) => {
+ *     console.log(oldValue, "->", newValue);
+ * });
+ */
+export function watch(target: any, keyOrPath: string | symbol | number, callback: WriteCallback<any>): WatchStopHandle {
+    // Enclosing object of the field, variable-length arrays resolve their length from it
+    let parent = target;
+    let source = toSource(target, keyOrPath);
+    if (!source && typeof keyOrPath === "string") {
+        const segments = parsePath(keyOrPath);
+        for (let index = 0; index < segments.length - 1; index++) {
+            parent = parent?.[segments[index]];
+        }
+        source = toSource(parent, segments[segments.length - 1]);
+    }
+    if (!source) {
+        throw new Error(`Cannot watch '${String(keyOrPath)}', target is not reactive or has no such field.`);
+    }
+    const { view, type, littleEndian, offset } = source;
+    const subscriber: Subscriber = {
+        resolve: () => {
+            const current = view();
+            const position = offset();
+            return {
+                view: current,
+                offset: position,
+                size: instanceSize(type, { view: current, offset: position, littleEndian, parent })
+            };
+        },
+        read: (view, offset) => type.getter({ view, offset, littleEndian, parent }),
+        callback
+    };
+    subscribers.add(subscriber);
+    return () => void subscribers.delete(subscriber);
+}
@@ -0,0 +1,37 @@
+import { types, defineStruct, BinaryReader } from "enhance-data-view";
+
+const Header = defineStruct()
+    .addProperty("magic", types.UINT_16)
+    .addProperty("count", types.UINT_16)
+    .freeze();
+
+describe("BinaryReader", () => {
+    const view = new DataView(new Uint8Array([
+        0x4d, 0x5a, 0x03, 0x00,
+        0x01, 0x00, 0x02, 0x00, 0x03, 0x00,
+        0xff, 0xff,
+        0x78, 0x56, 0x34, 0x12
+    ]).buffer);
+
+    it("should read sequentially", () => {
+        const reader = new BinaryReader(view, 0, true);
+        const header = reader.read(Header);
+        expect(header).toEqual({ magic: 0x5a4d, count: 3 });
+        expect(reader.readArray(types.UINT_16, header.count)).toEqual([1, 2, 3]);
+        expect(reader.position).toBe(10);
+        expect(reader.peek(types.UINT_8)).toBe(0xff);
+        expect(reader.position).toBe(10);
+        expect(reader.skip(1).align(4).read(types.UINT_32)).toBe(0x12345678);
+        expect(reader.remaining).toBe(0);
+    });
+
+    it("should fork and seek independently", () => {
+        const reader = new BinaryReader(view, 4);
+        const fork = reader.fork();
+        expect(fork.read(types.UINT_16)).toBe(0x0100);
+        expect(fork.read(types.UINT_16, true)).toBe(2);
+        expect(reader.position).toBe(4);
+        expect(reader.seek(12).read(types.UINT_32, true)).toBe(0x12345678);
+        expect(fork.position).toBe(8);
+    });
+});
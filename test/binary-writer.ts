@@ -0,0 +1,43 @@
+import { types, definePrimitive, defineString, defineStruct, BinaryWriter, BinaryReader } from "enhance-data-view";
+
+const Point = defineStruct()
+    .addProperty("x", types.INT_16)
+    .addProperty("y", types.INT_16)
+    .freeze();
+
+describe("BinaryWriter", () => {
+    it("should grow and back-patch reserved fields", () => {
+        const points = Array.from({ length: 10 }, (_, i) => ({ x: i, y: i * -2 + 1 }));
+        const writer = new BinaryWriter(4, true);
+        const count = writer.reserve(types.UINT_8);
+        writer.align(2, 0xff).writeArray(Point, points).write(defineString(3, 0), "ab");
+        count.set(points.length);
+        const bytes = writer.finish();
+        expect(bytes.byteLength).toBe(2 + points.length * Point.size + 3);
+        expect(Array.from(bytes.subarray(0, 2))).toEqual([10, 0xff]);
+        const reader = new BinaryReader(new DataView(bytes.buffer), 0, true);
+        const length = reader.read(types.UINT_8);
+        expect(reader.align(2).readArray(Point, length)).toEqual(points);
+        expect(reader.read(defineString(3, 0))).toBe("ab");
+    });
+
+    it("should keep back-patched dynamic values inside the reserved region", () => {
+        const writer = new BinaryWriter(4, true);
+        expect(() => writer.reserve(types.ULEB128)).toThrow("[ULEB128] Reserving a dynamic type requires a byte size.");
+        const length = writer.reserve(types.ULEB128, 2);
+        writer.write(types.UINT_8, 0xaa);
+        expect(() => length.set(0x4000)).toThrow("[ULEB128] Encoded size 3 exceeds the 2 reserved bytes at offset 0.");
+        length.set(300);
+        expect(Array.from(writer.finish())).toEqual([172, 2, 0xaa]);
+    });
+
+    it("should use setters of custom primitives", () => {
+        const VEC3 = definePrimitive<Array<number>>("VEC3")
+            .setSize(3)
+            .setGetter(({ view, offset }) => [view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2)])
+            .setSetter(({ view, offset }, value) => value.forEach((x, i) => view.setUint8(offset + i, x)))
+            .freeze();
+        const bytes = new BinaryWriter(1).write(VEC3, [1, 2, 3]).pad(1).finish();
+        expect(Array.from(bytes)).toEqual([1, 2, 3, 0]);
+    });
+});
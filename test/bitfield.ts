@@ -0,0 +1,45 @@
+import { types, get, set, reactive, defineBitfield, defineStruct } from "enhance-data-view";
+
+describe("Bitfield types", () => {
+    const Access = defineBitfield(types.UINT_32, {
+        readable: [0, 1],
+        kind: [1, 3],
+        delta: [4, 4, true],
+        reserved: [8, 24]
+    }).freeze();
+
+    it("should decode and encode bit ranges", () => {
+        const view = new DataView(new ArrayBuffer(4));
+        set(view, Access, 0, { readable: true, kind: 5, delta: -2, reserved: 0xABCDEF }, true);
+        expect(view.getUint32(0, true)).toBe(0xABCDEFEB);
+        expect(get(view, Access, 0, true)).toEqual({ readable: true, kind: 5, delta: -2, reserved: 0xABCDEF });
+        expect(get(view, Access, 0, false)).toEqual({ readable: true, kind: 5, delta: -6, reserved: 0xEBEFCD });
+        expect(Access.size).toBe(4);
+        expect(() => defineBitfield(types.UINT_8, { wide: [4, 5] })).toThrow("Bit field 'wide' does not fit into 8 bits");
+    });
+
+    it("should keep bits of missing members", () => {
+        const view = new DataView(new ArrayBuffer(4));
+        view.setUint32(0, 0xFFFFFF00, true);
+        set(view, Access, 0, { kind: 1 }, true);
+        expect(view.getUint32(0, true)).toBe(0xFFFFFF02);
+    });
+
+    it("should read-modify-write in reactive mode", () => {
+        const Header = defineStruct()
+            .addProperty("flags", defineBitfield(types.INT_16, { low: [0, 8], sign: [15, 1] }).freeze())
+            .addProperty("wide", defineBitfield(types.UINT_64, { high: [48, 16] }).freeze())
+            .freeze();
+        const view = new DataView(new ArrayBuffer(16));
+        view.setInt16(0, 0x1234);
+        const header = reactive(view, Header, 0);
+        header.flags.sign = true;
+        expect(view.getUint16(0)).toBe(0x9234);
+        header.flags.low = 0xFF;
+        expect(view.getUint16(0)).toBe(0x92FF);
+        expect(header.flags.sign).toBe(true);
+        header.wide.high = 0xBEEF;
+        expect(view.getBigUint64(8)).toBe(0xBEEF000000000000n);
+        expect("low" in header.flags).toBe(true);
+    });
+});
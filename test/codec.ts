@@ -0,0 +1,26 @@
+import { types, encode, decode, defineArray, defineStruct } from "enhance-data-view";
+
+const Record = defineStruct()
+    .addProperty("id", types.UINT_16)
+    .addProperty("values", defineArray(types.INT_8, 2).freeze())
+    .freeze();
+
+describe("encode/decode", () => {
+    it("should encode exactly type.size bytes", () => {
+        const bytes = encode(Record, { id: 0x0102, values: [-1, 3] }, { littleEndian: true });
+        expect(bytes).toBeInstanceOf(Uint8Array);
+        expect(Array.from(bytes)).toEqual([0x02, 0x01, 0xff, 0x03]);
+        expect(Array.from(encode(types.UINT_16, 0x0102))).toEqual([0x01, 0x02]);
+    });
+
+    it("should honour byteOffset of views", () => {
+        const pool = new Uint8Array([0xaa, 0xaa, 0x02, 0x01, 0xff, 0x03, 0x10, 0x00]);
+        const bytes = pool.subarray(2);
+        const expected = { id: 0x0102, values: [-1, 3] };
+        expect(decode(Record, bytes, { littleEndian: true })).toEqual(expected);
+        expect(decode(Record, Buffer.from(pool.buffer, 2, 6), { littleEndian: true })).toEqual(expected);
+        expect(decode(Record, new DataView(pool.buffer, 2), { littleEndian: true })).toEqual(expected);
+        expect(decode(Record, pool.buffer, { offset: 2, littleEndian: true })).toEqual(expected);
+        expect(decode(types.UINT_16, bytes, { offset: 4, littleEndian: true })).toBe(0x10);
+    });
+});
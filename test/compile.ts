@@ -0,0 +1,63 @@
+import { types, get, set, compile, setSafeMode, BoundsError, defineArray, defineString, defineStruct } from "enhance-data-view";
+
+const tag = Symbol("tag");
+
+const Vertex = defineStruct()
+    .addProperty("position", defineArray(types.FLOAT_32, 3).freeze())
+    .addProperty("color", types.UINT_32)
+    .addProperty(tag, types.CHAR)
+    .freeze();
+
+const Mesh = defineStruct()
+    .addProperty("name", defineString(8, 0).freeze())
+    .addProperty("id", types.UINT_64)
+    .addProperty("flags", types.WORD)
+    .addProperty("vertices", defineArray(Vertex, 4).freeze())
+    .addProperty("indices", defineArray(types.INT_16, 6, -1).freeze())
+    .addPadding("reserved", 3)
+    .addProperty("scale", types.DOUBLE)
+    .freeze();
+
+const value = {
+    name: "mesh",
+    id: 0x123456789n,
+    flags: 0xbeef,
+    vertices: Array.from({ length: 4 }, (_, i) => ({
+        position: [i, i + 0.5, -i],
+        color: 0xff000000 + i,
+        [tag]: String.fromCharCode(65 + i)
+    })),
+    indices: [0, 1, 2],
+    scale: 1.25
+};
+
+describe("Compiled codecs", () => {
+    const CompiledMesh = compile(Mesh);
+
+    it.each([true, false])("should match the interpreted path (littleEndian: %s)", (littleEndian) => {
+        const interpreted = new DataView(new ArrayBuffer(Mesh.size));
+        const compiled = new DataView(new ArrayBuffer(Mesh.size));
+        set(interpreted, Mesh, 0, value, littleEndian);
+        set(compiled, CompiledMesh, 0, value, littleEndian);
+        expect(new Uint8Array(compiled.buffer)).toEqual(new Uint8Array(interpreted.buffer));
+        expect(get(compiled, CompiledMesh, 0, littleEndian)).toEqual(get(interpreted, Mesh, 0, littleEndian));
+        expect(get(compiled, CompiledMesh, 0, littleEndian).indices).toEqual([0, 1, 2, -1, -1, -1]);
+    });
+
+    it("should keep the definition members", () => {
+        expect(CompiledMesh.size).toBe(Mesh.size);
+        expect(CompiledMesh.offsetOf("scale")).toBe(Mesh.offsetOf("scale"));
+        expect(Object.isFrozen(CompiledMesh)).toBe(true);
+    });
+
+    it("should fall back to the interpreted path in safe mode", () => {
+        setSafeMode(true);
+        try {
+            const view = new DataView(new ArrayBuffer(Mesh.size - 1));
+            expect(() => get(view, CompiledMesh, 0)).toThrow(BoundsError);
+        }
+        finally {
+            setSafeMode(false);
+        }
+    });
+});
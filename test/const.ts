@@ -0,0 +1,41 @@
+import { types, get, set, reactive, encode, defineConst, defineProperty, defineString, defineStruct } from "enhance-data-view";
+
+describe("Constant types", () => {
+    const IMAGE_DOS_HEADER = defineStruct()
+        .addProperty("e_magic", defineConst(types.WORD, 0x5a4d).freeze())
+        .addProperty("e_cblp", types.WORD)
+        .freeze();
+
+    it("should write constants automatically", () => {
+        const view = new DataView(new ArrayBuffer(4));
+        set(view, IMAGE_DOS_HEADER, 0, { e_cblp: 0x90 }, true);
+        expect(view.getUint16(0, true)).toBe(0x5a4d);
+        expect(get(view, IMAGE_DOS_HEADER, 0, true)).toEqual({ e_magic: 0x5a4d, e_cblp: 0x90 });
+        expect(encode(IMAGE_DOS_HEADER, { e_cblp: 1 }, { littleEndian: true })).toEqual(new Uint8Array([0x4d, 0x5a, 1, 0]));
+        // @ts-expect-error Constant properties are excluded from write inputs
+        set(view, IMAGE_DOS_HEADER, 0, { e_magic: 0x5a4d, e_cblp: 0x90 }, true);
+    });
+
+    it("should validate constants on read", () => {
+        const view = new DataView(new ArrayBuffer(4));
+        expect(() => get(view, IMAGE_DOS_HEADER, 0, true)).toThrow("Constant mismatch: expected 23117 (0x5A4D), got 0 (0x0)");
+        const header = reactive(view, IMAGE_DOS_HEADER, 0, true);
+        expect(() => header.e_magic).toThrow("Constant mismatch");
+        header.e_cblp = 2;
+        const Lenient = defineConst(types.WORD, 0x5a4d).setValidate(false).freeze();
+        expect(get(view, Lenient, 0, true)).toBe(0);
+    });
+
+    it("should support the const property option", () => {
+        const Signature = defineStruct({
+            Signature: defineProperty(defineString(4), { const: "PE\0\0" }),
+            Machine: types.WORD
+        }).addProperty("Version", types.UINT_8, { const: 1 }).freeze();
+        const view = new DataView(new ArrayBuffer(8));
+        set(view, Signature, 0, { Machine: 0x8664 }, true);
+        expect(get(view, Signature, 0, true)).toEqual({ Signature: "PE\0\0", Machine: 0x8664, Version: 1 });
+        const signature = reactive(view, Signature, 0, true);
+        signature.Machine = 0x14c;
+        expect(signature.Version).toBe(1);
+    });
+});
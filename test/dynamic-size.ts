@@ -0,0 +1,97 @@
+import { types, get, set, reactive, measure, encode, decode, getArray, setArray, definePrimitive, defineArray, defineStruct, compile, BinaryReader, BinaryWriter } from "enhance-data-view";
+
+// Unsigned LEB128, 1 to 5 bytes
+const VARUINT = definePrimitive<number>("VARUINT")
+    .setSize(1)
+    .setGetter(({ view, offset }) => {
+        let result = 0;
+        for (let index = 0; index < 5; index++) {
+            const byte = view.getUint8(offset + index);
+            result += (byte & 0x7F) * 2 ** (7 * index);
+            if (byte < 0x80) {
+                break;
+            }
+        }
+        return result;
+    })
+    .setSetter(({ view, offset }, value) => {
+        let index = 0;
+        do {
+            const byte = value % 0x80;
+            value = Math.floor(value / 0x80);
+            view.setUint8(offset + index++, value > 0 ? byte | 0x80 : byte);
+        } while (value > 0);
+    })
+    .setMeasure(({ view, offset }, value) => {
+        if (value !== void 0) {
+            let size = 1;
+            while (value >= 0x80) {
+                value = Math.floor(value / 0x80);
+                size++;
+            }
+            return size;
+        }
+        let size = 1;
+        while (size < 5 && view.getUint8(offset + size - 1) >= 0x80) {
+            size++;
+        }
+        return size;
+    })
+    .freeze();
+
+const Record = defineStruct()
+    .addProperty("id", VARUINT)
+    .addProperty("value", types.UINT_8)
+    .freeze();
+
+describe("Dynamic-size types", () => {
+    it("should measure instances and encoded values", () => {
+        const view = new DataView(new ArrayBuffer(8));
+        set(view, VARUINT, 0, 300);
+        expect(VARUINT.dynamic).toBe(true);
+        expect(types.UINT_8.dynamic).toBeFalsy();
+        expect(measure(view, VARUINT, 0)).toBe(2);
+        expect(measure(view, types.UINT_32, 0)).toBe(4);
+        expect(encode(VARUINT, 300)).toEqual(new Uint8Array([0xAC, 0x02]));
+        expect(decode(VARUINT, new Uint8Array([0xAC, 0x02]))).toBe(300);
+    });
+
+    it("should lay out structs with per-instance sizes", () => {
+        expect(Record.dynamic).toBe(true);
+        expect(Record.size).toBe(2);
+        const bytes = encode(Record, { id: 1000, value: 7 });
+        expect(bytes).toEqual(new Uint8Array([0xE8, 0x07, 7]));
+        const view = new DataView(bytes.buffer);
+        expect(get(view, Record, 0)).toEqual({ id: 1000, value: 7 });
+        expect(Record.offsetOf("value", 0, view)).toBe(2);
+        const record = reactive(view, Record, 0);
+        expect(record.value).toBe(7);
+        record.id = 5;
+        expect(record.value).toBe(0x07);
+        expect(measure(view, Record, 0)).toBe(2);
+    });
+
+    it("should step arrays by element sizes", () => {
+        const view = new DataView(new ArrayBuffer(16));
+        const values = [1, 200, 70000, 3];
+        setArray(view, VARUINT, 0, values);
+        expect(getArray(view, VARUINT, 0, 4)).toEqual(values);
+        const List = defineArray(Record, 3).freeze();
+        const list = [{ id: 1, value: 1 }, { id: 300, value: 2 }, { id: 3, value: 3 }];
+        set(view, List, 0, list);
+        expect(measure(view, List, 0)).toBe(7);
+        expect(get(view, List, 0)).toEqual(list);
+        expect(reactive(view, List, 0)[2].value).toBe(3);
+        expect(get(view, compile(List), 0)).toEqual(list);
+    });
+
+    it("should advance readers and writers by instance sizes", () => {
+        const writer = new BinaryWriter(2);
+        writer.write(VARUINT, 70000).writeArray(Record, [{ id: 1, value: 2 }, { id: 128, value: 3 }]);
+        expect(writer.position).toBe(8);
+        const reader = new BinaryReader(new DataView(writer.finish().buffer));
+        expect(reader.read(VARUINT)).toBe(70000);
+        expect(reader.readArray(Record, 2)).toEqual([{ id: 1, value: 2 }, { id: 128, value: 3 }]);
+        expect(reader.remaining).toBe(0);
+    });
+});
@@ -0,0 +1,47 @@
+import { types, get, set, reactive, ref, defineEnum, defineStruct } from "enhance-data-view";
+
+describe("Enum types", () => {
+    const Machine = defineEnum(types.WORD, { I386: 0x14c, AMD64: 0x8664 }).freeze();
+
+    it("should read member names and write names or numbers", () => {
+        const view = new DataView(new ArrayBuffer(4));
+        set(view, Machine, 0, "AMD64", true);
+        expect(view.getUint16(0, true)).toBe(0x8664);
+        expect(get(view, Machine, 0, true)).toBe("AMD64");
+        set(view, Machine, 0, 0x14c, true);
+        expect(get(view, Machine, 0, true)).toBe("I386");
+        set(view, Machine, 0, 0x1c0, true);
+        expect(get(view, Machine, 0, true)).toBe(0x1c0);
+        expect(Machine.size).toBe(2);
+        expect(Machine.nameOf(0x8664)).toBe("AMD64");
+        expect(() => set(view, Machine, 0, "ARM" as any)).toThrow("Unknown enum member: ARM");
+    });
+
+    it("should apply the unknown value policy", () => {
+        const view = new DataView(new ArrayBuffer(4));
+        view.setUint16(0, 0x1c0, true);
+        const Strict = Machine.clone().setUnknown("throw").freeze();
+        expect(() => get(view, Strict, 0, true)).toThrow("Unknown enum value: 448");
+        const Fallback = Machine.clone().setUnknown("fallback", "I386").freeze();
+        expect(get(view, Fallback, 0, true)).toBe("I386");
+        expect(Fallback.clone().unknown).toBe("fallback");
+        expect(() => Machine.clone().setUnknown("fallback", "ARM" as any)).toThrow("Fallback must be a member name");
+    });
+
+    it("should work in reactive mode and refs", () => {
+        const Header = defineStruct()
+            .addProperty("Machine", Machine)
+            .addProperty("Kind", defineEnum(types.UINT_64, { Small: 1n, Large: 2n }).freeze())
+            .freeze();
+        const view = new DataView(new ArrayBuffer(16));
+        const header = reactive(view, Header, 0, true);
+        header.Machine = "I386";
+        header.Kind = "Large";
+        expect(header.Machine).toBe("I386");
+        expect(view.getBigUint64(8, true)).toBe(2n);
+        expect(header.Kind).toBe("Large");
+        const machine = ref(view, Machine, 0, true);
+        machine.value = "AMD64";
+        expect(header.Machine).toBe("AMD64");
+    });
+});
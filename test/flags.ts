@@ -0,0 +1,55 @@
+import { types, get, set, reactive, defineFlags, defineStruct } from "enhance-data-view";
+
+describe("Flags types", () => {
+    const Characteristics = defineFlags(types.WORD, { RELOCS_STRIPPED: 0x0001, EXECUTABLE_IMAGE: 0x0002, DLL: 0x2000 }).freeze();
+
+    it("should decode to a set of flag names", () => {
+        const view = new DataView(new ArrayBuffer(2));
+        view.setUint16(0, 0x2102, true);
+        const flags = get(view, Characteristics, 0, true);
+        expect(flags.has("EXECUTABLE_IMAGE")).toBe(true);
+        expect(flags.has("RELOCS_STRIPPED")).toBe(false);
+        expect([...flags]).toEqual(["EXECUTABLE_IMAGE", "DLL"]);
+        expect(flags.size).toBe(2);
+        expect(flags.unknown).toBe(0x0100);
+        expect(Characteristics.name).toBe("flags(WORD)");
+    });
+
+    it("should preserve unknown bits on write", () => {
+        const view = new DataView(new ArrayBuffer(2));
+        view.setUint16(0, 0x8102, true);
+        const flags = get(view, Characteristics, 0, true);
+        flags.delete("EXECUTABLE_IMAGE");
+        flags.add("DLL");
+        set(view, Characteristics, 0, flags, true);
+        expect(view.getUint16(0, true)).toBe(0xA100);
+        set(view, Characteristics, 0, ["RELOCS_STRIPPED"], true);
+        expect(view.getUint16(0, true)).toBe(0x8101);
+        set(view, Characteristics, 0, Characteristics.create(["DLL"]), true);
+        expect(view.getUint16(0, true)).toBe(0x2000);
+        set(view, Characteristics, 0, 0x8002, true);
+        expect([...get(view, Characteristics, 0, true)]).toEqual(["EXECUTABLE_IMAGE"]);
+        expect(() => flags.add("ARM" as any)).toThrow("[flags(WORD)] Unknown flag: ARM");
+    });
+
+    it("should write immediately in reactive mode", () => {
+        const Header = defineStruct()
+            .addProperty("Machine", types.WORD)
+            .addProperty("Characteristics", Characteristics)
+            .addProperty("Wide", defineFlags(types.UINT_64, { HIGH: 1n << 63n }).freeze())
+            .setName("Header")
+            .freeze();
+        const view = new DataView(new ArrayBuffer(16));
+        const header = reactive(view, Header, 0, true);
+        header.Characteristics.add("DLL").add("EXECUTABLE_IMAGE");
+        expect(view.getUint16(2, true)).toBe(0x2002);
+        expect(header.Characteristics.delete("DLL")).toBe(true);
+        expect(view.getUint16(2, true)).toBe(0x0002);
+        view.setUint16(2, 0x2000, true);
+        expect([...header.Characteristics]).toEqual(["DLL"]);
+        header.Wide.add("HIGH");
+        expect(view.getBigUint64(8, true)).toBe(1n << 63n);
+        expect(header.Wide.value).toBe(1n << 63n);
+        expect(() => header.Characteristics.delete("ARM" as any)).toThrow("[Header.Characteristics] Unknown flag: ARM");
+    });
+});
@@ -0,0 +1,48 @@
+import { types, reactive, ref, toRaw, watch, bindMemory, defineArray, defineStruct } from "enhance-data-view";
+
+declare const WebAssembly: any;
+
+const Player = defineStruct()
+    .addProperty("health", types.UINT_32)
+    .addProperty("position", defineArray(types.FLOAT_32, 2).freeze())
+    .freeze();
+
+describe("Memory growth", () => {
+    it("should keep reactive proxies valid after WebAssembly.Memory.grow()", () => {
+        const memory = new WebAssembly.Memory({ initial: 1 });
+        const binding = bindMemory(memory);
+        const player = reactive(binding, Player, 0x100, true);
+        const health = ref(binding, types.UINT_32, 0x100, true);
+        const position = player.position;
+        player.health = 80;
+        position[1] = 2;
+        const oldView = binding.view;
+        memory.grow(1);
+        expect(oldView.buffer.byteLength).toBe(0);
+        expect(binding.view).not.toBe(oldView);
+        expect(binding.view.byteLength).toBe(2 * 65536);
+        // Cached getters resolve the new view
+        expect(player.health).toBe(80);
+        expect(health.value).toBe(80);
+        expect(position[1]).toBe(2);
+        player.health = 90;
+        position[0] = 1;
+        expect(toRaw(player)).toEqual({ health: 90, position: [1, 2] });
+        expect(binding.view.getUint32(0x100, true)).toBe(90);
+    });
+
+    it("should accept a DataView getter and keep watchers alive", () => {
+        let view = new DataView(new ArrayBuffer(Player.size));
+        const player = reactive(() => view, Player, 0);
+        const values = new Array<number>();
+        const stop = watch(player, "health", ({ newValue }) => values.push(newValue));
+        player.health = 1;
+        const grown = new Uint8Array(Player.size * 2);
+        grown.set(new Uint8Array(view.buffer));
+        view = new DataView(grown.buffer);
+        expect(player.health).toBe(1);
+        player.health = 2;
+        expect(values).toEqual([1, 2]);
+        stop();
+    });
+});
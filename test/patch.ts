@@ -0,0 +1,55 @@
+import { types, get, set, patch, defineArray, defineString, defineStruct } from "enhance-data-view";
+
+const DataDirectory = defineStruct()
+    .addProperty("VirtualAddress", types.DWORD)
+    .addProperty("Size", types.DWORD)
+    .freeze();
+
+const Header = defineStruct()
+    .addProperty("Magic", types.WORD)
+    .addProperty("Name", defineString(4, 0).freeze())
+    .addProperty("Point", defineStruct().addProperty("x", types.INT_16).addProperty("y", types.INT_16).freeze())
+    .addProperty("DataDirectory", defineArray(DataDirectory, 4).freeze())
+    .setName("Header")
+    .freeze();
+
+describe("Partial updates", () => {
+    const fill = () => {
+        const view = new DataView(new ArrayBuffer(Header.size));
+        set(view, Header, 0, {
+            Magic: 0x10b,
+            Name: "PE",
+            Point: { x: 1, y: 2 },
+            DataDirectory: [1, 2, 3, 4].map(n => ({ VirtualAddress: n * 0x1000, Size: n }))
+        }, true);
+        return view;
+    };
+
+    it("should write only provided keys and keep other bytes", () => {
+        const view = fill();
+        const before = new Uint8Array(view.buffer.slice(0));
+        patch(view, Header, 0, { Point: { y: -5 }, DataDirectory: { 2: { Size: 0x28 } } }, true);
+        const value = get(view, Header, 0, true);
+        expect(value.Point).toEqual({ x: 1, y: -5 });
+        expect(value.DataDirectory[2]).toEqual({ VirtualAddress: 0x3000, Size: 0x28 });
+        expect(value.Magic).toBe(0x10b);
+        const after = new Uint8Array(view.buffer);
+        const changed = after.reduce((list, byte, index) => byte !== before[index] ? [...list, index] : list, new Array<number>());
+        expect(changed).toEqual([Header.offsetOf("Point") + 2, Header.offsetOf("Point") + 3, Header.offsetOf("DataDirectory") + 20]);
+    });
+
+    it("should accept sparse arrays and replace leaf values", () => {
+        const view = fill();
+        patch(view, Header, 0, { Name: "NE", DataDirectory: [, { VirtualAddress: 0 }] }, true);
+        const value = get(view, Header, 0, true);
+        expect(value.Name).toBe("NE");
+        expect(value.DataDirectory[1]).toEqual({ VirtualAddress: 0, Size: 2 });
+        expect(value.DataDirectory[0]).toEqual({ VirtualAddress: 0x1000, Size: 1 });
+    });
+
+    it("should reject unknown keys and indices", () => {
+        const view = fill();
+        expect(() => patch(view, Header, 0, { Other: 1 } as any, true)).toThrow("[Header] There is no attribute named Other.");
+        expect(() => patch(view, Header, 0, { DataDirectory: { 4: { Size: 1 } } }, true)).toThrow("[Header.DataDirectory] Index 4 is out of range 0..3.");
+    });
+});
@@ -0,0 +1,75 @@
+import { types, defineArray, defineString, defineStruct, set } from "enhance-data-view";
+import type { TypeDefinition } from "enhance-data-view";
+
+const DataDirectory = defineStruct()
+    .addProperty("VirtualAddress", types.DWORD)
+    .addProperty("Size", types.DWORD)
+    .freeze();
+
+const OptionalHeader = defineStruct()
+    .addProperty("Magic", types.WORD)
+    .addPadding("Reserved", 2)
+    .addProperty("DataDirectory", defineArray(DataDirectory, 16).freeze())
+    .freeze();
+
+const NtHeaders = defineStruct()
+    .addProperty("Signature", types.DWORD)
+    .addProperty("OptionalHeader", OptionalHeader)
+    .freeze();
+
+describe("Field paths", () => {
+    it("should resolve nested offsets, sizes and types", () => {
+        expect(NtHeaders.offsetOf("OptionalHeader.DataDirectory[1].VirtualAddress")).toBe(4 + 4 + 8);
+        expect(NtHeaders.offsetOf(["OptionalHeader", "DataDirectory", 1, "Size"], 0x80)).toBe(0x80 + 4 + 4 + 8 + 4);
+        expect(NtHeaders.sizeOf("OptionalHeader.DataDirectory")).toBe(16 * 8);
+        expect(NtHeaders.sizeOf("OptionalHeader.DataDirectory[2]")).toBe(8);
+        const type: TypeDefinition<number> = NtHeaders.typeOf("OptionalHeader.DataDirectory[3].Size");
+        expect(type).toBe(types.DWORD);
+        expect(NtHeaders.typeOf("OptionalHeader")).toBe(OptionalHeader);
+        const directories = defineArray(DataDirectory, 16).freeze();
+        expect(directories.offsetOf("[15].Size")).toBe(15 * 8 + 4);
+        expect(directories.offsetOf(2)).toBe(16);
+        expect(directories.typeOf([0, "VirtualAddress"])).toBe(types.DWORD);
+    });
+
+    it("should reject unknown segments", () => {
+        // @ts-expect-error Paths are checked against the struct type
+        expect(() => NtHeaders.offsetOf("OptionalHeader.Missing")).toThrow("There is no attribute named Missing.");
+        expect(() => NtHeaders.offsetOf("OptionalHeader.DataDirectory[16]")).toThrow("Index 16 is out of range 0..15.");
+        expect(() => NtHeaders.offsetOf("Signature.x" as any)).toThrow("Attribute Signature has no nested fields.");
+    });
+
+    it("should follow dynamic layouts with a view", () => {
+        const Entry = defineStruct()
+            .addProperty("name", defineString(types.UINT_8).freeze())
+            .addProperty("value", types.UINT_16)
+            .freeze();
+        const Table = defineStruct()
+            .addProperty("count", types.UINT_8)
+            .addProperty("entries", defineArray(Entry).setLength("count").freeze())
+            .freeze();
+        const view = new DataView(new ArrayBuffer(32));
+        set(view, Table, 0, { count: 2, entries: [{ name: "abc", value: 1 }, { name: "de", value: 2 }] }, true);
+        // Entries are aligned to 2 bytes, values follow the string at offset 4
+        expect(Table.offsetOf("entries[1].value", 0, view, true)).toBe(2 + 6 + 4);
+        expect(Table.sizeOf("entries[1]", 0, view, true)).toBe(6);
+        expect(Table.sizeOf("entries", 0, view, true)).toBe(12);
+    });
+
+    it("should measure nested paths through variable-length arrays", () => {
+        const Entry = defineStruct()
+            .addProperty("name", defineString(types.UINT_8).freeze())
+            .addProperty("value", types.UINT_16)
+            .freeze();
+        const Table = defineStruct()
+            .addProperty("count", types.UINT_8)
+            .addProperty("entries", defineArray(Entry).setLength("count").freeze())
+            .freeze();
+        const view = new DataView(new ArrayBuffer(48));
+        set(view, Table, 16, { count: 2, entries: [{ name: "abcde", value: 1 }, { name: "f", value: 2 }] }, true);
+        expect(Table.sizeOf("entries[0].name", 16, view, true)).toBe(6);
+        expect(Table.sizeOf("entries[1].name", 16, view, true)).toBe(2);
+        expect(Table.sizeOf("entries[1].value", 16, view, true)).toBe(2);
+        expect(Table.sizeOf("entries[1].name")).toBe(Entry.sizeOf("name"));
+    });
+});
@@ -0,0 +1,89 @@
+import { types, get, set, reactive, toRaw, definePointer, defineArray, defineStruct, defineTransform } from "enhance-data-view";
+import type { Pointer, StructDefinitionFreezed } from "enhance-data-view";
+
+type NodeShape = { value: number, next: Pointer<any> };
+const Node: StructDefinitionFreezed<NodeShape> = defineStruct()
+    .addProperty("value", types.INT_32)
+    .addProperty("next", definePointer<NodeShape>(() => Node).freeze())
+    .setName("Node")
+    .freeze();
+
+describe("Pointer types", () => {
+    // Node list at 0x10 -> 0x20 -> null, addresses start at 0x1000
+    const createView = () => {
+        const view = new DataView(new ArrayBuffer(0x40));
+        const NodeAt = definePointer(Node, { base: 0x1000 }).freeze();
+        set(view, types.INT_32, 0x10, 1, true);
+        set(view, NodeAt, 0x14, 0x1020, true);
+        set(view, types.INT_32, 0x20, 2, true);
+        return view;
+    };
+
+    it("should follow pointers with get", () => {
+        const view = createView();
+        const Head = definePointer(Node, { base: 0x1000 }).freeze();
+        const pointer = get(view, Head, 0x14, true);
+        expect(Head.name).toBe("Node*");
+        expect(Head.size).toBe(4);
+        expect(pointer.address).toBe(0x1020);
+        expect(pointer.isNull).toBe(false);
+        expect(pointer.deref()).toMatchObject({ value: 2 });
+        expect(pointer.value?.value).toBe(2);
+        const next = get(view, Node, 0x20, true).next;
+        expect(next.isNull).toBe(true);
+        expect(next.value).toBeNull();
+        expect(() => next.deref()).toThrow("Null pointer dereference");
+    });
+
+    it("should serialize pointers as addresses", () => {
+        const view = new DataView(new ArrayBuffer(0x20));
+        set(view, types.INT_32, 0x10, 1, true);
+        set(view, types.UINT_32, 0x14, 0x10, true);
+        const node = reactive(view, Node, 0x10, true);
+        expect(node.next.value?.next.value?.value).toBe(1);
+        expect(JSON.stringify(node)).toBe('{"value":1,"next":{"address":16,"isNull":false}}');
+        expect(JSON.stringify(get(view, Node, 0x10, true))).toBe('{"value":1,"next":{"address":16,"isNull":false}}');
+        node.next.address = 0;
+        expect(JSON.stringify(node.next)).toBe('{"address":0,"isNull":true}');
+    });
+
+    it("should follow live addresses in reactive mode", () => {
+        const view = new DataView(new ArrayBuffer(0x20));
+        const List = defineStruct()
+            .addProperty("head", definePointer(defineArray(types.UINT_16, 2).freeze(), { addressType: types.UINT_64 }).freeze())
+            .freeze();
+        const list = reactive(view, List, 0, true);
+        expect(list.head.value).toBeNull();
+        list.head.address = 0x10;
+        const target = list.head.value!;
+        target[1] = 7;
+        expect(view.getUint16(0x12, true)).toBe(7);
+        expect(view.getBigUint64(0, true)).toBe(0x10n);
+        set(view, List, 0, { head: 0x14 }, true);
+        expect(target[1]).toBe(0);
+        list.head.value = [3, 4];
+        expect(toRaw(list.head).deref()).toEqual([3, 4]);
+        list.head.address = 0;
+        expect(list.head.isNull).toBe(true);
+        expect(() => list.head.value = [1, 2]).toThrow("Null pointer dereference");
+    });
+
+    it("should support primitive pointees", () => {
+        const view = new DataView(new ArrayBuffer(8));
+        const holder = reactive(view, defineStruct().addProperty("p", definePointer(types.INT_16).freeze()).freeze(), 0);
+        holder.p.address = 6;
+        holder.p.value = -5;
+        expect(holder.p.value).toBe(-5);
+        expect(view.getInt16(6)).toBe(-5);
+    });
+
+    it("should convert addresses for custom address types", () => {
+        const view = new DataView(new ArrayBuffer(16));
+        const Address64 = defineTransform(types.UINT_64, { decode: (value) => value, encode: (value: bigint) => value }).freeze();
+        const holder = reactive(view, defineStruct().addProperty("p", definePointer(types.UINT_8, { addressType: Address64 }).freeze()).freeze(), 0, true);
+        holder.p.address = 12;
+        expect(view.getBigUint64(0, true)).toBe(12n);
+        set(view, definePointer(types.UINT_8).freeze(), 8, 0x10n);
+        expect(view.getUint32(8)).toBe(0x10);
+    });
+});
@@ -0,0 +1,110 @@
+import { types, reactive, reactiveSlice, subscribe, toSource, defineArray, defineStruct, defineString } from "enhance-data-view";
+import type { WriteEvent, ReactiveArray } from "enhance-data-view";
+
+describe("Reactive array methods", () => {
+    const Numbers = defineArray(types.UINT_8, 5).setName("Numbers").freeze();
+
+    const track = (view: DataView) => {
+        const events = new Array<WriteEvent<any>>();
+        const stop = subscribe(view, { offset: 0, size: view.byteLength }, (event) => events.push(event));
+        return { events, stop };
+    };
+
+    it("should not write for non-mutating methods", () => {
+        const view = new DataView(new Uint8Array([3, 1, 4, 1, 5]).buffer);
+        const numbers = reactive(view, Numbers, 0);
+        const { events, stop } = track(view);
+        expect(numbers.filter(x => x > 2)).toEqual([3, 4, 5]);
+        expect(numbers.find(x => x > 3)).toBe(4);
+        expect(numbers.includes(5)).toBe(true);
+        expect(numbers.slice(1, 3)).toEqual([1, 4]);
+        expect(numbers.join("")).toBe("31415");
+        expect(numbers.indexOf(1)).toBe(1);
+        expect(events).toEqual([]);
+        view.setUint8(0, 9);
+        expect(numbers.join("")).toBe("91415");
+        stop();
+    });
+
+    it("should write only changed elements of mutating methods", () => {
+        const view = new DataView(new Uint8Array([3, 1, 4, 1, 5]).buffer);
+        const numbers = reactive(view, Numbers, 0);
+        const { events, stop } = track(view);
+        expect(numbers.sort()).toBe(numbers);
+        expect([...new Uint8Array(view.buffer)]).toEqual([1, 1, 3, 4, 5]);
+        expect(events.map(x => x.path)).toEqual(["Numbers[0]", "Numbers[2]", "Numbers[3]"]);
+        events.length = 0;
+        numbers.fill(7, 3);
+        expect(events.map(x => x.range.offset)).toEqual([3, 4]);
+        numbers.copyWithin(0, 2);
+        numbers.reverse();
+        expect([...new Uint8Array(view.buffer)]).toEqual([7, 7, 7, 7, 3]);
+        stop();
+    });
+
+    it("should move struct elements without clobbering them", () => {
+        const Point = defineStruct({ x: types.INT_16, y: types.INT_16 }).freeze();
+        const view = new DataView(new ArrayBuffer(12));
+        const points = reactive(view, defineArray(Point, 3).freeze(), 0, true);
+        points[0].x = 1;
+        points[1].x = 2;
+        points[2].x = 3;
+        points.reverse();
+        expect(points.map(point => point.x)).toEqual([3, 2, 1]);
+        points.sort((a, b) => a.x - b.x);
+        expect(points.map(point => point.x)).toEqual([1, 2, 3]);
+    });
+
+    it("should reject length-changing methods", () => {
+        const numbers = reactive(new DataView(new ArrayBuffer(5)), Numbers, 0);
+        expect(() => numbers.push(1)).toThrow(TypeError);
+        expect(() => numbers.splice(0, 1)).toThrow("[Numbers] Cannot call splice, reactive arrays have a fixed length.");
+    });
+});
+
+describe("Reactive array windows", () => {
+    const Point = defineStruct({ x: types.INT_16, y: types.INT_16 }).freeze();
+    const Points = defineArray(Point, 8).setName("Points").freeze();
+
+    it("should share memory with the parent array", () => {
+        const view = new DataView(new ArrayBuffer(Points.size + 4));
+        const points = reactive(view, Points, 0, true) as ReactiveArray<{ x: number, y: number }>;
+        const window = points.subarray(2, -2);
+        expect(window.length).toBe(4);
+        window[0].x = 5;
+        expect(points[2].x).toBe(5);
+        points[5].y = -1;
+        expect(window[3].y).toBe(-1);
+        expect(window[4]).toBeUndefined();
+        expect(toSource(window)?.path).toBe("Points[2..6]");
+        expect(toSource(window, 1)?.path).toBe("Points[3]");
+        expect(window.subarray(1, 2)[0]).toEqual(points[3]);
+        expect(toSource(window.subarray(1, 2), 0)?.path).toBe("Points[3]");
+        expect(points.subarray(6, 2).length).toBe(0);
+        const events = new Array<WriteEvent<any>>();
+        const stop = subscribe(view, { offset: 0, size: view.byteLength }, (event) => events.push(event));
+        window[1] = { x: 1, y: 2 };
+        stop();
+        expect(events.map(x => x.path)).toEqual(["Points[3]"]);
+    });
+
+    it("should follow dynamic base offsets and elements", () => {
+        const view = new DataView(new ArrayBuffer(Points.size + 4));
+        let offset = 0;
+        const window = reactiveSlice(view, Points, () => offset, 1, 3, true);
+        offset = 4;
+        window[0].x = 7;
+        expect(view.getInt16(8, true)).toBe(7);
+
+        const Names = defineArray(defineString(types.UINT_8), 3).freeze();
+        const names = new DataView(new ArrayBuffer(16));
+        const list = reactive(names, Names, 0) as ReactiveArray<string>;
+        list[0] = "ab";
+        list[1] = "c";
+        list[2] = "d";
+        const tail = list.subarray(1);
+        expect([...tail]).toEqual(["c", "d"]);
+        tail[1] = "e";
+        expect(list[2]).toBe("e");
+    });
+});
@@ -0,0 +1,76 @@
+import { types, get, set, reactive, ref, defineArray, defineString, defineStruct, setSafeMode, BoundsError } from "enhance-data-view";
+
+const DataDirectory = defineStruct()
+    .addProperty("VirtualAddress", types.DWORD)
+    .addProperty("Size", types.DWORD)
+    .freeze();
+
+const Header = defineStruct()
+    .addProperty("Magic", types.WORD)
+    .addProperty("Name", defineString(4, 0).freeze())
+    .addProperty("DataDirectory", defineArray(DataDirectory, 4).freeze())
+    .setName("Header")
+    .freeze();
+
+describe("Safe mode", () => {
+    beforeEach(() => setSafeMode(true));
+    afterEach(() => setSafeMode(false));
+
+    it("should report the deepest failing field path on get", () => {
+        // Cut the buffer in the middle of DataDirectory[3]
+        const view = new DataView(new ArrayBuffer(Header.size - 2));
+        let error: unknown;
+        try {
+            get(view, Header, 0, true);
+        }
+        catch (e) {
+            error = e;
+        }
+        expect(error).toBeInstanceOf(BoundsError);
+        expect(error).toBeInstanceOf(RangeError);
+        const boundsError = error as BoundsError;
+        expect(boundsError.path).toBe("Header.DataDirectory[3].Size");
+        expect(boundsError.typeName).toBe("DWORD");
+        expect(boundsError.offset).toBe(Header.size - 4);
+        expect(boundsError.byteLength).toBe(Header.size - 2);
+    });
+
+    it("should check strings and primitives on set", () => {
+        const view = new DataView(new ArrayBuffer(4));
+        expect(() => set(view, Header, 0, {
+            Magic: 1,
+            Name: "ab",
+            DataDirectory: []
+        })).toThrow("[Header.Name]");
+        expect(() => set(view, types.UINT_32, 1, 0)).toThrow(BoundsError);
+    });
+
+    it("should check reactive access with dynamic offsets", () => {
+        const view = new DataView(new ArrayBuffer(Header.size));
+        let offset = 0;
+        const header = reactive(view, Header, () => offset, true);
+        header.DataDirectory[3].Size = 42;
+        expect(header.DataDirectory[3].Size).toBe(42);
+        offset = 4;
+        expect(() => header.DataDirectory[3].Size).toThrow("[Header.DataDirectory[3].Size]");
+        expect(() => header.DataDirectory[3].Size = 1).toThrow(BoundsError);
+        expect(header.Magic).toBe(0);
+    });
+
+    it("should check ref access", () => {
+        const view = new DataView(new ArrayBuffer(4));
+        let offset = 0;
+        const value = ref(view, types.UINT_32, () => offset);
+        expect(value.value).toBe(0);
+        offset = 2;
+        expect(() => value.value).toThrow(BoundsError);
+        expect(() => value.value = 1).toThrow(BoundsError);
+    });
+
+    it("should keep the default behavior when disabled", () => {
+        setSafeMode(false);
+        const view = new DataView(new ArrayBuffer(2));
+        expect(() => get(view, types.UINT_32, 0)).not.toThrow(BoundsError);
+        expect(() => get(view, types.UINT_32, 0)).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,98 @@
+import { inspect } from "util";
+import { types, reactive, toRaw, defineStruct, defineArray, defineUnion, defineBitfield, setBigIntPolicy } from "enhance-data-view";
+
+describe("Reactive serialization", () => {
+    const Point = defineStruct({
+        x: types.INT_16,
+        y: types.INT_16
+    }).freeze();
+    const Shape = defineStruct({
+        id: types.UINT_64,
+        points: defineArray(Point, 2).freeze()
+    }).freeze();
+
+    const createShape = () => {
+        const view = new DataView(new ArrayBuffer(16));
+        const shape = reactive(view, Shape, 0, true);
+        shape.id = 9007199254740993n;
+        shape.points[0].x = 1;
+        shape.points[1].y = -2;
+        return { view, shape };
+    };
+
+    it("should enumerate and spread like plain objects", () => {
+        const { view, shape } = createShape();
+        expect(Object.keys(shape)).toEqual(["id", "points"]);
+        expect(Object.keys(shape.points)).toEqual(["0", "1"]);
+        expect(Object.entries(shape.points[1])).toEqual([["x", 0], ["y", -2]]);
+        expect(Object.prototype.hasOwnProperty.call(shape, "points")).toBe(true);
+        expect(Object.prototype.hasOwnProperty.call(shape, "toJSON")).toBe(false);
+        const copy = { ...shape.points[0] };
+        expect(copy).toEqual({ x: 1, y: 0 });
+        copy.x = 5;
+        expect(view.getInt16(8, true)).toBe(1);
+        // Nested members stay reactive
+        const { points } = { ...shape };
+        points[0].x = 7;
+        expect(view.getInt16(8, true)).toBe(7);
+    });
+
+    it("should serialize to JSON with the BigInt policy", () => {
+        const { shape } = createShape();
+        expect(JSON.parse(JSON.stringify(shape))).toEqual({
+            id: "9007199254740993",
+            points: [{ x: 1, y: 0 }, { x: 0, y: -2 }]
+        });
+        expect(JSON.stringify(shape.points)).toBe('[{"x":1,"y":0},{"x":0,"y":-2}]');
+        try {
+            setBigIntPolicy("number");
+            expect(JSON.parse(JSON.stringify(shape)).id).toBe(9007199254740992);
+            setBigIntPolicy("throw");
+            expect(() => JSON.stringify(shape)).toThrow(TypeError);
+        }
+        finally {
+            setBigIntPolicy("string");
+        }
+    });
+
+    it("should be cloned through the raw value", () => {
+        const { shape } = createShape();
+        // Proxies are never structured-cloneable
+        expect(() => structuredClone(shape)).toThrow(DOMException);
+        expect(() => structuredClone(shape.points)).toThrow(DOMException);
+        expect(structuredClone(toRaw(shape))).toEqual({
+            id: 9007199254740993n,
+            points: [{ x: 1, y: 0 }, { x: 0, y: -2 }]
+        });
+    });
+
+    it("should show decoded values in util.inspect", () => {
+        const { shape } = createShape();
+        expect(inspect(shape, { depth: 4 })).toBe(inspect({
+            id: 9007199254740993n,
+            points: [{ x: 1, y: 0 }, { x: 0, y: -2 }]
+        }, { depth: 4 }));
+        expect(inspect(shape.points[1])).toBe("{ x: 0, y: -2 }");
+    });
+
+    it("should serialize nested unions and bitfields", () => {
+        const Record = defineStruct()
+            .addProperty("kind", types.UINT_8)
+            .addProperty("access", defineBitfield(types.UINT_8, { readable: [0, 1], level: [1, 3] }).freeze())
+            .addProperty("body", defineUnion({ count: types.UINT_16, delta: types.INT_16 }).setTag("kind", { count: 1, delta: 2 }).freeze())
+            .freeze();
+        const view = new DataView(new ArrayBuffer(Record.size));
+        const record = reactive(view, Record, 0, true);
+        record.body.delta = -3;
+        record.access.level = 5;
+        expect(Object.keys(record.body)).toEqual(["delta"]);
+        expect({ ...record.access }).toEqual({ readable: false, level: 5 });
+        expect(JSON.parse(JSON.stringify(record))).toEqual({
+            kind: 2,
+            access: { readable: false, level: 5 },
+            body: { delta: -3 }
+        });
+        expect(JSON.stringify(record.access)).toBe('{"readable":false,"level":5}');
+        expect(inspect(record.body)).toBe("{ delta: -3 }");
+    });
+});
@@ -0,0 +1,49 @@
+import { types, get, set, ref, reactive, encode, defineTransform, defineStruct } from "enhance-data-view";
+
+describe("Transform types", () => {
+    const TimeDateStamp = defineTransform(types.DWORD, {
+        decode: (value) => new Date(value * 1000),
+        encode: (value: Date) => Math.floor(value.getTime() / 1000),
+        name: "time_t"
+    }).freeze();
+
+    it("should map values on read and write", () => {
+        const view = new DataView(new ArrayBuffer(4));
+        set(view, TimeDateStamp, 0, new Date("2024-01-01T00:00:00Z"), true);
+        expect(view.getUint32(0, true)).toBe(1704067200);
+        expect(get(view, TimeDateStamp, 0, true)).toEqual(new Date("2024-01-01T00:00:00Z"));
+        expect(TimeDateStamp.size).toBe(4);
+        expect(TimeDateStamp.align).toBe(4);
+        expect(TimeDateStamp.name).toBe("time_t");
+        expect(defineTransform(types.WORD, { decode: String, encode: Number }).name).toBe("transform(WORD)");
+    });
+
+    it("should return mapped values from refs and reactive structs", () => {
+        const Scaled = defineTransform(types.INT_16, {
+            decode: (value) => value / 100,
+            encode: (value: number) => Math.round(value * 100)
+        }).freeze();
+        const Header = defineStruct()
+            .addProperty("Time", TimeDateStamp)
+            .addProperty("Gain", Scaled)
+            .freeze();
+        const view = new DataView(new ArrayBuffer(8));
+        const header = reactive(view, Header, 0, true);
+        header.Gain = -1.25;
+        expect(view.getInt16(4, true)).toBe(-125);
+        expect(header.Gain).toBe(-1.25);
+        const time = ref(view, TimeDateStamp, 0, true);
+        time.value = new Date(86400000);
+        expect(header.Time).toEqual(new Date(86400000));
+        expect(time.value.getTime()).toBe(86400000);
+    });
+
+    it("should measure dynamic base types on the encoded value", () => {
+        const Count = defineTransform(types.ULEB128, {
+            decode: (value) => BigInt(value),
+            encode: (value: bigint) => Number(value)
+        }).freeze();
+        expect(Count.dynamic).toBe(true);
+        expect(encode(Count, 300n).byteLength).toBe(2);
+    });
+});
@@ -0,0 +1,83 @@
+import { types, asTypedArray, get, set, getArray, setArray, defineArray, defineString, setValidationPolicy, ValidationError } from "enhance-data-view";
+
+describe("TypedArray views", () => {
+    const littleEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+    const Vertices = defineArray(types.FLOAT_32, 4).freeze();
+
+    it("should share memory when alignment and byte order allow", () => {
+        const view = new DataView(new ArrayBuffer(24), 4);
+        view.setFloat32(4, 1.5, littleEndian);
+        const { array, shared } = asTypedArray(view, Vertices, 4, littleEndian);
+        expect(shared).toBe(true);
+        expect(array).toBeInstanceOf(Float32Array);
+        expect(array[0]).toBe(1.5);
+        array[3] = -2;
+        expect(view.getFloat32(16, littleEndian)).toBe(-2);
+        const bytes = asTypedArray(view, defineArray(types.UINT_8, 3).freeze(), 1, !littleEndian);
+        expect(bytes.shared).toBe(true);
+        const wide = asTypedArray(view, defineArray(types.INT_64, 2).freeze(), 4, littleEndian);
+        expect(wide.array).toBeInstanceOf(BigInt64Array);
+    });
+
+    it("should fall back to a copy otherwise", () => {
+        const view = new DataView(new ArrayBuffer(24));
+        view.setFloat32(2, 3.25, !littleEndian);
+        const misaligned = asTypedArray(view, Vertices, 2, !littleEndian);
+        expect(misaligned.shared).toBe(false);
+        expect(misaligned.array[0]).toBe(3.25);
+        misaligned.array[1] = 7;
+        expect(view.getFloat32(6, !littleEndian)).toBe(0);
+        misaligned.flush();
+        expect(view.getFloat32(6, !littleEndian)).toBe(7);
+        expect(asTypedArray(view, Vertices, 4, !littleEndian).shared).toBe(false);
+    });
+
+    it("should reject unsupported arrays", () => {
+        const view = new DataView(new ArrayBuffer(8));
+        expect(() => asTypedArray(view, Vertices, 0, true)).toThrow(RangeError);
+        expect(() => asTypedArray(view, defineArray(defineString(2), 2).freeze() as any, 0)).toThrow("has no TypedArray counterpart");
+        expect(() => asTypedArray(view, defineArray(types.UINT_8).setLength("count").freeze(), 0)).toThrow();
+    });
+});
+
+describe("Bulk array access", () => {
+    it("should read and write numeric arrays in both byte orders", () => {
+        const view = new DataView(new ArrayBuffer(32));
+        for (const littleEndian of [true, false]) {
+            setArray(view, types.INT_16, 1, [1, -2, 0x1234], littleEndian);
+            expect(view.getInt16(3, littleEndian)).toBe(-2);
+            expect(getArray(view, types.INT_16, 1, 3, littleEndian)).toEqual([1, -2, 0x1234]);
+            setArray(view, types.UINT_64, 8, new BigUint64Array([1n, 2n ** 63n]), littleEndian);
+            expect(view.getBigUint64(16, littleEndian)).toBe(2n ** 63n);
+            const typed = getArray(view, types.UINT_64, 8, 2, littleEndian, { typed: true });
+            expect(typed).toBeInstanceOf(BigUint64Array);
+            expect([...typed]).toEqual([1n, 2n ** 63n]);
+        }
+        expect(() => getArray(view, types.CHAR, 0, 2, true, { typed: true } as any)).toThrow("has no TypedArray counterpart");
+        expect(() => getArray(view, types.FLOAT_32, 28, 2, true)).toThrow(RangeError);
+    });
+
+    it("should use bulk copies in array definitions", () => {
+        const Samples = defineArray(types.FLOAT_32, 4, 0.5).freeze();
+        const view = new DataView(new ArrayBuffer(16));
+        set(view, Samples, 0, [1.5, -3], true);
+        expect(view.getFloat32(4, true)).toBe(-3);
+        expect(get(view, Samples, 0, true)).toEqual([1.5, -3, 0.5, 0.5]);
+    });
+
+    it("should validate element by element unless the policy is wrap", () => {
+        const view = new DataView(new ArrayBuffer(4));
+        setArray(view, types.UINT_8, 0, [1, 256, 2]);
+        expect([...new Uint8Array(view.buffer)]).toEqual([1, 0, 2, 0]);
+        try {
+            setValidationPolicy("clamp");
+            setArray(view, types.UINT_8, 0, [1, 256, -1]);
+            expect([...new Uint8Array(view.buffer)]).toEqual([1, 255, 0, 0]);
+            setValidationPolicy("throw");
+            expect(() => set(view, defineArray(types.UINT_8, 4).freeze(), 0, [0, 0, 300])).toThrow(ValidationError);
+        }
+        finally {
+            setValidationPolicy("wrap");
+        }
+    });
+});
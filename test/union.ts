@@ -0,0 +1,76 @@
+import { types, get, set, reactive, compile, defineUnion, defineStruct } from "enhance-data-view";
+
+describe("Union types", () => {
+    const Point = defineStruct()
+        .addProperty("x", types.INT_16)
+        .addProperty("y", types.INT_16)
+        .freeze();
+    const Shape = defineStruct()
+        .addProperty("kind", types.UINT_8)
+        .addProperty("body", defineUnion({
+            circle: types.UINT_32,
+            point: Point
+        }).setTag("kind", { circle: 1, point: 2 }).freeze())
+        .freeze();
+
+    it("should overlap members of plain unions", () => {
+        const Misc = defineUnion({
+            PhysicalAddress: types.DWORD,
+            VirtualSize: types.DWORD,
+            Low: types.WORD
+        }).freeze();
+        const view = new DataView(new ArrayBuffer(8));
+        set(view, Misc, 0, { VirtualSize: 0x12345678 }, true);
+        expect(Misc.size).toBe(4);
+        expect(Misc.align).toBe(4);
+        expect(Misc.discriminated).toBe(false);
+        expect(get(view, Misc, 0, true)).toEqual({ PhysicalAddress: 0x12345678, VirtualSize: 0x12345678, Low: 0x5678 });
+        const misc = reactive(view, Misc, 0, true);
+        misc.Low = 0;
+        expect(misc.PhysicalAddress).toBe(0x12340000);
+        expect(Reflect.ownKeys(misc)).toEqual(["PhysicalAddress", "VirtualSize", "Low"]);
+        expect(() => set(view, Misc, 0, null as any)).toThrow("[union{3}] Value null is not an object of variants.");
+        const Section = defineStruct().addProperty("misc", Misc).setName("Section").freeze();
+        expect(() => reactive(view, Section, 0).misc = 5 as any).toThrow("[Section.misc] Value number is not an object of variants.");
+    });
+
+    it("should select variants by sibling tags", () => {
+        const view = new DataView(new ArrayBuffer(16));
+        expect(Shape.size).toBe(8);
+        set(view, Shape, 0, { kind: 0, body: { point: { x: 1, y: -1 } } }, true);
+        expect(view.getUint8(0)).toBe(2);
+        expect(get(view, Shape, 0, true)).toEqual({ kind: 2, body: { point: { x: 1, y: -1 } } });
+        set(view, Shape, 0, { kind: 2, body: { circle: 5 } }, true);
+        expect(get(view, Shape, 0, true)).toEqual({ kind: 1, body: { circle: 5 } });
+        view.setUint8(0, 9);
+        expect(get(view, Shape, 0, true)).toEqual({ kind: 9, body: {} });
+        expect(get(view, compile(Shape), 0, true)).toEqual({ kind: 9, body: {} });
+    });
+
+    it("should switch variants in reactive mode", () => {
+        const view = new DataView(new ArrayBuffer(16));
+        const shape = reactive(view, Shape, 0, true);
+        shape.kind = 1;
+        shape.body.circle = 7;
+        expect("point" in shape.body).toBe(false);
+        expect(shape.body.point).toBeUndefined();
+        shape.body.point = { x: 3, y: 4 };
+        expect(shape.kind).toBe(2);
+        expect(shape.body.point?.y).toBe(4);
+        expect(Reflect.ownKeys(shape.body)).toEqual(["point"]);
+    });
+
+    it("should select variants by functions", () => {
+        const Value = defineUnion({ int: types.INT_32, float: types.FLOAT_32 })
+            .setTag((parent: any) => parent.isFloat ? "float" : "int")
+            .freeze();
+        const Field = defineStruct()
+            .addProperty("isFloat", types.UINT_8)
+            .addProperty("value", Value)
+            .freeze();
+        const view = new DataView(new ArrayBuffer(8));
+        set(view, Field, 0, { isFloat: 1, value: { float: 1.5 } });
+        expect(get(view, Field, 0)).toEqual({ isFloat: 1, value: { float: 1.5 } });
+        expect(() => set(view, Value, 0, {} as any)).toThrow("Value does not contain any variant");
+    });
+});
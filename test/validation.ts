@@ -0,0 +1,82 @@
+import { types, set, encode, reactive, compile, defineArray, defineBitfield, defineString, defineStruct, setValidationPolicy, ValidationError } from "enhance-data-view";
+
+const Header = defineStruct()
+    .addProperty("Level", types.INT_8)
+    .addProperty("Name", defineString(8).freeze())
+    .addProperty("Sizes", defineArray(types.UINT_64, 2).freeze())
+    .setName("Header")
+    .freeze();
+
+describe("Write validation", () => {
+    afterEach(() => setValidationPolicy("wrap"));
+
+    it("should wrap by default", () => {
+        const view = new DataView(new ArrayBuffer(4));
+        set(view, types.INT_8, 0, 300);
+        expect(view.getInt8(0)).toBe(44);
+        set(view, types.UINT_16, 2, -1);
+        expect(view.getUint16(2)).toBe(0xFFFF);
+    });
+
+    it("should throw with the field path and value", () => {
+        setValidationPolicy("throw");
+        const view = new DataView(new ArrayBuffer(Header.size));
+        let error: unknown;
+        try {
+            set(view, Header, 0, { Level: 300, Name: "", Sizes: [0n, 0n] });
+        }
+        catch (e) {
+            error = e;
+        }
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).path).toBe("Header.Level");
+        expect((error as ValidationError).value).toBe(300);
+        expect(() => set(view, Header, 0, { Level: 1, Name: "", Sizes: [2n ** 64n, 0n] })).toThrow("[Header.Sizes[0]] Value 18446744073709551616n is out of range 0..18446744073709551615");
+        expect(() => set(view, Header, 0, { Level: 1, Name: "x".repeat(40), Sizes: [0n, 0n] })).toThrow("[Header.Name] Value \"xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx...\" exceeds the maximum length 8 (length 40)");
+        expect(() => set(view, Header, 0, { Level: 1, Name: "", Sizes: [0n, 0n, 0n] })).toThrow("[Header.Sizes] Value Array(3) exceeds the maximum length 2");
+        expect(() => set(view, types.FLOAT_32, 0, NaN)).toThrow("[FLOAT_32] Value NaN is not a number");
+        expect(() => set(view, types.INT_32, 0, 1.5)).toThrow("is not an integer");
+        expect(() => reactive(view, Header, 0).Level = -129).toThrow("[Header.Level] Value -129 is out of range -128..127");
+    });
+
+    it("should clamp values to the type range", () => {
+        setValidationPolicy("clamp");
+        const view = new DataView(new ArrayBuffer(8));
+        set(view, types.INT_8, 0, 300);
+        expect(view.getInt8(0)).toBe(127);
+        set(view, types.UINT_32, 0, -5);
+        expect(view.getUint32(0)).toBe(0);
+        set(view, types.FLOAT_32, 0, -Infinity);
+        expect(view.getFloat32(0)).toBe(-3.4028234663852886e38);
+        const Flags = defineBitfield(types.INT_16, { sign: [15, 1] }).freeze();
+        set(view, Flags, 4, { sign: true });
+        expect(view.getUint16(4)).toBe(0x8000);
+    });
+
+    it("should check bitfield members against their width", () => {
+        const Mode = defineStruct()
+            .addProperty("bits", defineBitfield(types.UINT_8, { kind: [0, 3], delta: [3, 4, true] }).freeze())
+            .setName("Mode")
+            .freeze();
+        const view = new DataView(new ArrayBuffer(1));
+        setValidationPolicy("throw");
+        expect(() => set(view, Mode, 0, { bits: { kind: 9, delta: 0 } })).toThrow("[Mode.bits.kind] Value 9 is out of range 0..7");
+        expect(() => reactive(view, Mode, 0).bits.delta = -9).toThrow("[Mode.bits.delta] Value -9 is out of range -8..7");
+        expect(view.getUint8(0)).toBe(0);
+        setValidationPolicy("clamp");
+        set(view, Mode, 0, { bits: { kind: 9, delta: -9 } });
+        expect(view.getUint8(0)).toBe(0b1000_111);
+        setValidationPolicy("wrap");
+        set(view, Mode, 0, { bits: { kind: 9, delta: 0 } });
+        expect(view.getUint8(0)).toBe(1);
+    });
+
+    it("should apply per-call policies to nested fields and compiled types", () => {
+        const view = new DataView(new ArrayBuffer(Header.size));
+        set(view, Header, 0, { Level: 300, Name: "", Sizes: [0n, 0n] }, true, "clamp");
+        expect(view.getInt8(0)).toBe(127);
+        expect(() => encode(compile(Header), { Level: -200, Name: "", Sizes: [0n, 0n] }, { validation: "throw" })).toThrow(ValidationError);
+        set(view, types.INT_8, 0, 300);
+        expect(view.getInt8(0)).toBe(44);
+    });
+});
@@ -0,0 +1,62 @@
+import { types, get, set, reactive, measure, defineArray, defineStruct } from "enhance-data-view";
+
+describe("Variable-length arrays", () => {
+    const Table = defineStruct()
+        .addProperty("count", types.UINT_8)
+        .addProperty("items", defineArray(types.UINT_16, "count").freeze())
+        .addProperty("flags", types.UINT_8)
+        .addProperty("tail", defineArray(types.UINT_8, (table: any) => table.count * 2).freeze())
+        .freeze();
+
+    const createView = () => {
+        const view = new DataView(new ArrayBuffer(32));
+        set(view, Table, 0, { count: 3, items: [1, 2, 3], flags: 0xAA, tail: [4, 5, 6, 7, 8, 9] }, true);
+        return view;
+    };
+
+    it("should lay out siblings from decoded lengths", () => {
+        const view = createView();
+        expect(Table.dynamic).toBe(true);
+        expect(Table.size).toBe(4);
+        expect(Table.properties.get("items")?.type.name).toBe("UINT_16[count]");
+        expect(get(view, Table, 0, true)).toEqual({ count: 3, items: [1, 2, 3], flags: 0xAA, tail: [4, 5, 6, 7, 8, 9] });
+        expect(view.getUint8(8)).toBe(0xAA);
+        expect(Table.offsetOf("flags")).toBe(2);
+        expect(Table.offsetOf("flags", 0, view, true)).toBe(8);
+        expect(Table.sizeOf("tail", 0, view, true)).toBe(6);
+        expect(measure(view, Table, 0, true)).toBe(16);
+    });
+
+    it("should follow length changes in reactive mode", () => {
+        const view = createView();
+        const table = reactive(view, Table, 0, true);
+        expect(table.items.length).toBe(3);
+        expect([...table.items]).toEqual([1, 2, 3]);
+        expect(table.flags).toBe(0xAA);
+        table.count = 2;
+        expect(table.items.length).toBe(2);
+        expect(table.items[2]).toBeUndefined();
+        // Low byte of the former third item
+        expect(table.flags).toBe(3);
+        table.flags = 0x55;
+        expect(view.getUint8(6)).toBe(0x55);
+    });
+
+    it("should keep nested offsets consistent", () => {
+        const Outer = defineStruct()
+            .addProperty("table", Table)
+            .addProperty("end", types.UINT_8)
+            .freeze();
+        const view = createView();
+        expect(Outer.dynamic).toBe(true);
+        expect(get(view, Outer, 0, true).end).toBe(0);
+        view.setUint8(16, 0x7F);
+        expect(get(view, Outer, 0, true).end).toBe(0x7F);
+        expect(reactive(view, Outer, 0, true).end).toBe(0x7F);
+    });
+
+    it("should require an enclosing struct", () => {
+        const view = createView();
+        expect(() => get(view, defineArray(types.UINT_8, "count"), 0)).toThrow("must be a property of a struct");
+    });
+});
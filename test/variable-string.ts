@@ -0,0 +1,92 @@
+import { types, get, set, reactive, measure, encode, defineString, defineCString, defineStruct, setSafeMode, setValidationPolicy, BoundsError, ValidationError } from "enhance-data-view";
+
+describe("Variable-length strings", () => {
+    it("should read and write length-prefixed strings", () => {
+        const view = new DataView(new ArrayBuffer(16));
+        const Short = defineString(types.UINT_16).freeze();
+        set(view, Short, 0, "héllo", true);
+        expect(Short.name).toBe("string(UINT_16)");
+        expect(Short.size).toBe(2);
+        expect(view.getUint16(0, true)).toBe(6);
+        expect(get(view, Short, 0, true)).toBe("héllo");
+        expect(measure(view, Short, 0, true)).toBe(8);
+        expect(encode(defineString(types.UINT_64), "ab")).toEqual(new Uint8Array([0, 0, 0, 0, 0, 0, 0, 2, 0x61, 0x62]));
+        const Bounded = defineString(types.UINT_8).setMaxSize(3).freeze();
+        expect(encode(Bounded, "abcdef")).toEqual(new Uint8Array([3, 0x61, 0x62, 0x63]));
+    });
+
+    it("should support LEB128 prefixes", () => {
+        const Name = defineString(types.ULEB128).freeze();
+        const value = "x".repeat(200);
+        const bytes = encode(Name, value);
+        expect(bytes.length).toBe(202);
+        expect([bytes[0], bytes[1]]).toEqual([0xC8, 0x01]);
+        expect(get(new DataView(bytes.buffer), Name, 0)).toBe(value);
+    });
+
+    it("should read C strings up to the first NUL within the bound", () => {
+        const view = new DataView(new ArrayBuffer(12));
+        const Name = defineCString().freeze();
+        set(view, Name, 0, "abc");
+        expect(Name.name).toBe("cstring()");
+        expect(Name.size).toBe(1);
+        expect(get(view, Name, 0)).toBe("abc");
+        expect(measure(view, Name, 0)).toBe(4);
+        expect(encode(defineCString(3), "abcdef")).toEqual(new Uint8Array([0x61, 0x62, 0]));
+        new Uint8Array(view.buffer).fill(0x61);
+        expect(get(view, defineCString(5), 0)).toBe("aaaaa");
+        expect(get(view, Name, 4)).toBe("aaaaaaaa");
+    });
+
+    it("should lay out following fields in structs and reactive mode", () => {
+        const Entry = defineStruct()
+            .addProperty("name", defineString(types.UINT_8).freeze())
+            .addProperty("label", defineCString(16).freeze())
+            .addProperty("id", types.UINT_8)
+            .freeze();
+        const view = new DataView(new ArrayBuffer(32));
+        set(view, Entry, 0, { name: "ab", label: "xyz", id: 9 });
+        expect(get(view, Entry, 0)).toEqual({ name: "ab", label: "xyz", id: 9 });
+        expect(Entry.offsetOf("id", 0, view)).toBe(7);
+        const entry = reactive(view, Entry, 0);
+        entry.name = "abcd";
+        expect(entry.name).toBe("abcd");
+        expect(Entry.offsetOf("label", 0, view)).toBe(5);
+        entry.label = "q";
+        entry.id = 3;
+        expect(get(view, Entry, 0)).toEqual({ name: "abcd", label: "q", id: 3 });
+    });
+
+    it("should keep instances inside the DataView window", () => {
+        const buffer = new Uint8Array(24).fill(0xee);
+        const view = new DataView(buffer.buffer, 0, 8);
+        const Pascal = defineString(types.UINT_8).freeze();
+        expect(() => set(view, Pascal, 0, "x".repeat(16))).toThrow(BoundsError);
+        expect(buffer.subarray(0, 24).every(byte => byte === 0xee)).toBe(true);
+        view.setUint8(0, 20);
+        expect(() => get(view, Pascal, 0)).toThrow(BoundsError);
+        expect(() => set(view, defineCString().freeze(), 4, "abcd")).toThrow(BoundsError);
+        try {
+            setSafeMode(true);
+            expect(() => get(view, Pascal, 0)).toThrow("[string(UINT_8)] Type 'string(UINT_8)' at offset 0 (size 21)");
+        }
+        finally {
+            setSafeMode(false);
+        }
+    });
+
+    it("should fit the content length to the prefix type", () => {
+        const view = new DataView(new ArrayBuffer(320));
+        const Pascal = defineString(types.UINT_8).freeze();
+        set(view, Pascal, 0, "x".repeat(300));
+        expect(view.getUint8(0)).toBe(255);
+        expect(get(view, Pascal, 0)).toBe("x".repeat(255));
+        try {
+            setValidationPolicy("throw");
+            expect(() => set(view, Pascal, 0, "x".repeat(300))).toThrow(ValidationError);
+        }
+        finally {
+            setValidationPolicy("wrap");
+        }
+    });
+});
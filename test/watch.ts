@@ -0,0 +1,144 @@
+import { types, set, reactive, ref, toRef, watch, subscribe, defineArray, defineStruct, defineString } from "enhance-data-view";
+import type { WriteEvent } from "enhance-data-view";
+
+const Point = defineStruct()
+    .addProperty("x", types.INT_32)
+    .addProperty("y", types.INT_32)
+    .freeze();
+
+const Shape = defineStruct()
+    .addProperty("id", types.UINT_16)
+    .addProperty("points", defineArray(Point, 3).freeze())
+    .setName("Shape")
+    .freeze();
+
+describe("Change notification", () => {
+    it("should notify watchers of writes through any alias", () => {
+        const buffer = new ArrayBuffer(Shape.size);
+        const shape = reactive(new DataView(buffer), Shape, 0, true);
+        const alias = reactive(new DataView(buffer), Shape, 0, true);
+        const events = new Array<WriteEvent<number>>();
+        const stop = watch(shape, "points[1].y", (event) => events.push(event));
+
+        alias.points[1].y = 5;
+        toRef(alias.points[1], "y").value = 6;
+        ref(new DataView(buffer), types.INT_32, Shape.offsetOf("points") + 12, true).value = 7;
+        set(new DataView(buffer), Shape, 0, { id: 1, points: [{ x: 0, y: 0 }, { x: 0, y: 8 }, { x: 0, y: 0 }] }, true);
+        alias.points[0].y = 100;
+
+        expect(events.map(x => [x.oldValue, x.newValue])).toEqual([[0, 5], [5, 6], [6, 7], [7, 8]]);
+        expect(events[0].path).toBe("Shape.points[1].y");
+        expect(events[0].range).toEqual({ offset: Shape.offsetOf("points") + 12, size: 4 });
+        expect(events[3].path).toBe("Shape");
+        expect(events[3].range).toEqual({ offset: 0, size: Shape.size });
+
+        stop();
+        alias.points[1].y = 9;
+        expect(events.length).toBe(4);
+    });
+
+    it("should follow dynamic offsets", () => {
+        const view = new DataView(new ArrayBuffer(Point.size * 2));
+        let offset = 0;
+        const point = reactive(view, Point, () => offset);
+        const values = new Array<number>();
+        const stop = watch(point, "x", ({ newValue }) => values.push(newValue));
+        point.x = 1;
+        offset = Point.size;
+        point.x = 2;
+        set(view, types.INT_32, 0, 3);
+        expect(values).toEqual([1, 2]);
+        stop();
+    });
+
+    it("should report written values to byte range subscribers", () => {
+        const buffer = new ArrayBuffer(16);
+        const events = new Array<WriteEvent<any>>();
+        const stop = subscribe(new DataView(buffer, 4), { offset: 0, size: 4 }, (event) => events.push(event));
+        const view = new DataView(buffer);
+        set(view, types.UINT_16, 2, 0xffff);
+        set(view, types.UINT_16, 6, 0xabcd);
+        set(view, types.UINT_16, 8, 0x1234);
+        expect(events).toEqual([{
+            oldValue: 0,
+            newValue: 0xabcd,
+            path: "UINT_16",
+            range: { offset: 2, size: 2 }
+        }]);
+        stop();
+    });
+
+    it("should measure dynamic writes and watched fields", () => {
+        const Entry = defineStruct()
+            .addProperty("count", types.UINT_8)
+            .addProperty("name", defineString(types.UINT_8).freeze())
+            .addProperty("values", defineArray(types.UINT_8).setLength("count").freeze())
+            .freeze();
+        const view = new DataView(new ArrayBuffer(16));
+        const events = new Array<WriteEvent<any>>();
+        const stop = subscribe(view, { offset: 4, size: 1 }, (event) => events.push(event));
+        set(view, Entry, 0, { count: 2, name: "abcd", values: [1, 2] });
+        set(view, Entry.typeOf("name"), 1, "xyz");
+        expect(events.map(x => x.range)).toEqual([{ offset: 0, size: 8 }, { offset: 1, size: 4 }]);
+        stop();
+
+        const entry = reactive(view, Entry, 0);
+        const names = new Array<string>();
+        const values = new Array<Array<number>>();
+        const stopName = watch(entry, "name", ({ newValue }) => names.push(newValue));
+        const stopValues = watch(entry, "values", ({ newValue }) => values.push(newValue));
+        set(view, types.UINT_8, 3, 0x41);
+        set(view, types.UINT_8, 6, 9);
+        expect(names).toEqual(["xAz"]);
+        expect(values).toEqual([[100, 9]]);
+        stopName();
+        stopValues();
+    });
+
+    it("should follow fields moved by dynamic writes", () => {
+        const Record = defineStruct()
+            .addProperty("name", defineString(types.UINT_8).freeze())
+            .addProperty("x", types.UINT_8)
+            .setName("Record")
+            .freeze();
+        const view = new DataView(new ArrayBuffer(16));
+        const record = reactive(view, Record, 0);
+        record.x = 7;
+        const events = new Array<WriteEvent<number>>();
+        const stop = watch(record, "x", (event) => events.push(event));
+        record.name = "hello";
+        record.x = 8;
+        expect(events.map(x => [x.oldValue, x.newValue])).toEqual([[7, 0], [0, 8]]);
+        expect(events.map(x => x.path)).toEqual(["Record.name", "Record.x"]);
+        expect(view.getUint8(6)).toBe(8);
+        stop();
+    });
+
+    it("should report old and new values of fields after a resizing sibling", () => {
+        const Packet = defineStruct()
+            .addProperty("count", types.UINT_8)
+            .addProperty("values", defineArray(types.UINT_8).setLength("count").freeze())
+            .addProperty("tail", types.UINT_16)
+            .setName("Packet")
+            .freeze();
+        const buffer = new ArrayBuffer(16);
+        set(new DataView(buffer), Packet, 0, { count: 1, values: [5], tail: 0x0201 }, true);
+        const packet = reactive(new DataView(buffer), Packet, 0, true);
+        const alias = reactive(new DataView(buffer), Packet, 0, true);
+        const tails = new Array<[number, number]>();
+        const values = new Array<[Array<number>, Array<number>]>();
+        const stopTail = watch(packet, "tail", ({ oldValue, newValue }) => tails.push([oldValue, newValue]));
+        const stopValues = watch(packet, "values", ({ oldValue, newValue }) => values.push([oldValue, newValue]));
+        alias.count = 2;
+        alias.tail = 0x0403;
+        expect(tails).toEqual([[0x0201, 0], [0, 0x0403]]);
+        expect(values).toEqual([[[5], [5, 1]]]);
+        expect(packet.tail).toBe(0x0403);
+        stopTail();
+        stopValues();
+    });
+
+    it("should reject non-reactive targets", () => {
+        expect(() => watch({ x: 1 }, "x", () => void 0)).toThrow();
+    });
+});